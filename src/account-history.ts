@@ -0,0 +1,199 @@
+import { usageError } from './errors.js'
+import type { HiveClient } from './hive-client.js'
+import { normalizeOperationName } from './operations.js'
+import { unwrapResponse } from './output.js'
+
+/**
+ * Operation names by protocol id, real operations first, then virtual ones.
+ * The id is the bit position in account_history_api's operation filters.
+ */
+export const OPERATION_NAMES = [
+  'vote', 'comment', 'transfer', 'transfer_to_vesting', 'withdraw_vesting', 'limit_order_create',
+  'limit_order_cancel', 'feed_publish', 'convert', 'account_create', 'account_update', 'witness_update',
+  'account_witness_vote', 'account_witness_proxy', 'pow', 'custom', 'report_over_production', 'delete_comment',
+  'custom_json', 'comment_options', 'set_withdraw_vesting_route', 'limit_order_create2', 'claim_account',
+  'create_claimed_account', 'request_account_recovery', 'recover_account', 'change_recovery_account',
+  'escrow_transfer', 'escrow_dispute', 'escrow_release', 'pow2', 'escrow_approve', 'transfer_to_savings',
+  'transfer_from_savings', 'cancel_transfer_from_savings', 'custom_binary', 'decline_voting_rights',
+  'reset_account', 'set_reset_account', 'claim_reward_balance', 'delegate_vesting_shares',
+  'account_create_with_delegation', 'witness_set_properties', 'account_update2', 'create_proposal',
+  'update_proposal_votes', 'remove_proposal', 'update_proposal', 'collateralized_convert', 'recurrent_transfer',
+  // Virtual operations
+  'fill_convert_request', 'author_reward', 'curation_reward', 'comment_reward', 'liquidity_reward', 'interest',
+  'fill_vesting_withdraw', 'fill_order', 'shutdown_witness', 'fill_transfer_from_savings', 'hardfork',
+  'comment_payout_update', 'return_vesting_delegation', 'comment_benefactor_reward', 'producer_reward',
+  'clear_null_account_balance', 'proposal_pay', 'dhf_funding', 'hardfork_hive', 'hardfork_hive_restore',
+  'delayed_voting', 'consolidate_treasury_balance', 'effective_comment_vote', 'ineffective_delete_comment',
+  'dhf_conversion', 'expired_account_notification', 'changed_recovery_account', 'transfer_to_vesting_completed',
+  'pow_reward', 'vesting_shares_split', 'account_created', 'fill_collateralized_convert_request', 'system_warning',
+  'fill_recurrent_transfer', 'failed_recurrent_transfer', 'limit_order_cancelled', 'producer_missed',
+  'proposal_fee', 'collateralized_convert_immediate_conversion', 'escrow_approved', 'escrow_rejected',
+  'proxy_cleared', 'declined_voting_rights'
+]
+
+// The node returns at most this many entries per call
+const MAX_PAGE_SIZE = 1000
+
+export interface HistoryEntry {
+  /** Position in the account's history, counting from 0. */
+  index: number
+  trx_id: string
+  block: number
+  trx_in_block: number
+  op_in_trx: number
+  virtual_op: boolean
+  timestamp: string
+  type: string
+  value: Record<string, any>
+}
+
+/** One end of a --from/--to range: a block number or a UTC time. */
+export type HistoryBound = { block: number } | { time: string }
+
+export interface HistoryQuery {
+  account: string
+  /** Operation names to keep; all operations when empty. */
+  types?: string[]
+  from?: HistoryBound
+  to?: HistoryBound
+  /** Start below this history index instead of at the newest entry (resuming). */
+  before?: number
+  /** Entries per call; smaller pages return faster when only a few are needed. */
+  pageSize?: number
+}
+
+/**
+ * Parse a --from/--to value: digits are a block number, anything else a
+ * date or UTC time. A bare date covers the whole day, so `--to` ends at its
+ * last second.
+ */
+export function parseHistoryBound(value: string, edge: 'from' | 'to'): HistoryBound {
+  if (/^\d+$/.test(value)) {
+    return { block: Number(value) }
+  }
+  const time = /^\d{4}-\d{2}-\d{2}$/.test(value)
+    ? `${value}T${edge === 'from' ? '00:00:00' : '23:59:59'}`
+    : value.replace(/Z$/, '').replace(/\.\d+$/, '')
+  if (!/^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}(:\d{2})?$/.test(time) || Number.isNaN(Date.parse(`${time}Z`))) {
+    throw usageError(`--${edge} must be a block number, a date (2025-01-31) or a UTC time (2025-01-31T12:00:00), got "${value}"`)
+  }
+  return { time: time.length === 16 ? `${time}:00` : time }
+}
+
+/** account_history_api filter masks for the operation names, as decimal strings (they exceed 2^53). */
+export function operationFilter(types: string[]): { low: string; high: string } {
+  let low = 0n
+  let high = 0n
+  for (const type of types) {
+    const id = OPERATION_NAMES.indexOf(normalizeOperationName(type))
+    if (id === -1) {
+      throw usageError(`Unknown operation type "${type}". Examples: transfer, vote, claim_reward_balance, author_reward, fill_order`)
+    }
+    if (id < 64) {
+      low |= 1n << BigInt(id)
+    } else {
+      high |= 1n << BigInt(id - 64)
+    }
+  }
+  return { low: low.toString(), high: high.toString() }
+}
+
+function isAfter(entry: HistoryEntry, bound: HistoryBound): boolean {
+  return 'block' in bound ? entry.block > bound.block : entry.timestamp > bound.time
+}
+
+function isBefore(entry: HistoryEntry, bound: HistoryBound): boolean {
+  return 'block' in bound ? entry.block < bound.block : entry.timestamp < bound.time
+}
+
+async function fetchPage(
+  client: HiveClient,
+  account: string,
+  start: number,
+  limit: number,
+  filter: { low: string; high: string } | null
+): Promise<HistoryEntry[]> {
+  const result: any = unwrapResponse(await client.call('account_history_api', 'get_account_history', {
+    account,
+    start,
+    limit,
+    include_reversible: true,
+    ...(filter ? { operation_filter_low: filter.low, operation_filter_high: filter.high } : {})
+  }))
+  return (result?.history ?? []).map(([index, entry]: [number, any]) => ({
+    index,
+    trx_id: entry.trx_id,
+    block: entry.block,
+    trx_in_block: entry.trx_in_block,
+    op_in_trx: entry.op_in_trx,
+    virtual_op: Boolean(entry.virtual_op),
+    timestamp: entry.timestamp,
+    type: normalizeOperationName(entry.op.type),
+    value: entry.op.value
+  }))
+}
+
+/**
+ * Highest history index at or before the bound, found by bisecting the
+ * unfiltered history one entry at a time, so a range far in the past does not
+ * page through everything newer. Null when the account has nothing that old.
+ */
+async function findLastIndexUpTo(client: HiveClient, account: string, bound: HistoryBound): Promise<number | null> {
+  const [newest] = await fetchPage(client, account, -1, 1, null)
+  if (!newest) return null
+  if (!isAfter(newest, bound)) return newest.index
+
+  const [oldest] = await fetchPage(client, account, 0, 1, null)
+  if (!oldest || isAfter(oldest, bound)) return null
+
+  let low = 0
+  let high = newest.index
+  // Invariant: entry `low` is within the bound, entry `high` is after it
+  while (high - low > 1) {
+    const middle = Math.floor((low + high) / 2)
+    const [entry] = await fetchPage(client, account, middle, 1, null)
+    if (entry && !isAfter(entry, bound)) {
+      low = middle
+    } else {
+      high = middle
+    }
+  }
+  return low
+}
+
+/**
+ * Walk an account's history from newest to oldest, a page at a time, within
+ * the query's range and operation types. Stop iterating to stop fetching.
+ */
+export async function* walkHistory(client: HiveClient, query: HistoryQuery): AsyncGenerator<HistoryEntry> {
+  const filter = query.types && query.types.length > 0 ? operationFilter(query.types) : null
+  const pageSize = Math.min(query.pageSize ?? MAX_PAGE_SIZE, MAX_PAGE_SIZE)
+
+  let start = -1
+  if (query.to) {
+    const last = await findLastIndexUpTo(client, query.account, query.to)
+    if (last === null) return
+    start = last
+  }
+  if (query.before !== undefined) {
+    if (query.before <= 0) return
+    start = start === -1 ? query.before - 1 : Math.min(start, query.before - 1)
+  }
+
+  while (true) {
+    // The node requires start >= limit - 1
+    const limit = start === -1 ? pageSize : Math.min(pageSize, start + 1)
+    const page = await fetchPage(client, query.account, start, limit, filter)
+    if (page.length === 0) return
+
+    for (const entry of page.reverse()) {
+      if (query.to && isAfter(entry, query.to)) continue
+      if (query.from && isBefore(entry, query.from)) return
+      yield entry
+    }
+
+    const oldest = page[page.length - 1]!.index
+    if (oldest === 0) return
+    start = oldest - 1
+  }
+}
@@ -0,0 +1,331 @@
+import { OPERATION_NAMES } from './account-history.js'
+import { CliError, usageError } from './errors.js'
+import { varintSize, type HiveClient } from './hive-client.js'
+import { normalizeOperationName } from './operations.js'
+import { unwrapResponse } from './output.js'
+
+// block_api.get_block_range returns at most this many blocks per call
+const MAX_BLOCK_RANGE = 1000
+
+// Hive produces a block every 3 seconds
+const BLOCK_INTERVAL_MS = 3_000
+
+const MAX_RETRY_DELAY_MS = 30_000
+
+/** An operation with its position in the chain, as `hive stream` emits it. */
+export interface BlockOperation {
+  block: number
+  timestamp: string
+  trx_id: string
+  trx_in_block: number
+  op_in_trx: number
+  virtual: boolean
+  type: string
+  value: Record<string, any>
+}
+
+export interface Block {
+  block_num: number
+  block_id: string
+  previous: string
+  timestamp: string
+  witness: string
+  transactions: any[]
+  transaction_ids: string[]
+  [field: string]: unknown
+}
+
+const NULL_TRX_ID = '0000000000000000000000000000000000000000'
+
+async function getChainHeads(client: HiveClient): Promise<{ head: number; lib: number }> {
+  const props: any = unwrapResponse(await client.call('database_api', 'get_dynamic_global_properties', {}))
+  return { head: props.head_block_number, lib: props.last_irreversible_block_num }
+}
+
+/** Head or last irreversible block number. */
+export async function getChainHead(client: HiveClient, irreversible = false): Promise<number> {
+  const heads = await getChainHeads(client)
+  return irreversible ? heads.lib : heads.head
+}
+
+/**
+ * Blocks `from` to `from + count - 1`, fewer when the node has not produced
+ * them all yet. Each block gets its number, which the API leaves out.
+ */
+export async function getBlockRange(client: HiveClient, from: number, count: number): Promise<Block[]> {
+  const result: any = unwrapResponse(await client.call('block_api', 'get_block_range', {
+    starting_block_num: from,
+    count: Math.min(count, MAX_BLOCK_RANGE)
+  }))
+  return (result?.blocks ?? []).map((block: any, index: number) => ({ block_num: from + index, ...block }))
+}
+
+/** Operations in a block's transactions, in order. */
+export function blockOperations(block: Block): BlockOperation[] {
+  return block.transactions.flatMap((tx: any, trxInBlock: number) =>
+    (tx.operations ?? []).map((op: any, opInTrx: number) => ({
+      block: block.block_num,
+      timestamp: block.timestamp,
+      trx_id: block.transaction_ids[trxInBlock] ?? '',
+      trx_in_block: trxInBlock,
+      op_in_trx: opInTrx,
+      virtual: false,
+      type: normalizeOperationName(op.type),
+      value: op.value
+    })))
+}
+
+function toBlockOperation(entry: any): BlockOperation {
+  return {
+    block: entry.block,
+    timestamp: entry.timestamp,
+    trx_id: entry.trx_id === NULL_TRX_ID ? '' : entry.trx_id,
+    trx_in_block: entry.trx_in_block,
+    op_in_trx: entry.op_in_trx,
+    virtual: true,
+    type: normalizeOperationName(entry.op.type),
+    value: entry.op.value
+  }
+}
+
+/** Virtual operations produced in one block. */
+export async function getBlockVirtualOperations(client: HiveClient, blockNum: number): Promise<BlockOperation[]> {
+  const result: any = unwrapResponse(await client.call('account_history_api', 'get_ops_in_block', {
+    block_num: blockNum,
+    only_virtual: true,
+    include_reversible: true
+  }))
+  return (result?.ops ?? []).map(toBlockOperation)
+}
+
+// Payload of each block_header_extensions variant, by type name and tag
+const HEADER_EXTENSION_SIZES: Record<string, number> = { void_t: 0, version: 4, hardfork_version_vote: 8 }
+const HEADER_EXTENSION_TYPES = ['void_t', 'version', 'hardfork_version_vote']
+
+function headerExtensionSize(extension: any): number {
+  // [tag, value] in condenser format, { type, value } in block_api format
+  const type = Array.isArray(extension) ? HEADER_EXTENSION_TYPES[extension[0]] : String(extension?.type ?? '').replace(/_extension$/, '')
+  return 1 + (HEADER_EXTENSION_SIZES[type ?? ''] ?? 0)
+}
+
+// ref_block_num, ref_block_prefix and expiration
+const TRANSACTION_HEADER_SIZE = 2 + 4 + 4
+const SIGNATURE_SIZE = 65
+
+/**
+ * Serialized size of a block in bytes: the signed header (previous, timestamp,
+ * witness, merkle root, extensions, signature) plus its transactions. The
+ * operations of all transactions are serialized by the node in a single
+ * get_transaction_hex call, which takes the condenser format of the block's
+ * transactions; the per-transaction framing around them is added here.
+ */
+export async function getBlockSize(client: HiveClient, block: Block): Promise<number> {
+  const extensions: any[] = Array.isArray(block.extensions) ? block.extensions : []
+  const header = 20 + 4 + varintSize(block.witness.length) + block.witness.length + 20 +
+    varintSize(extensions.length) + extensions.reduce((size, extension) => size + headerExtensionSize(extension), 0) +
+    SIGNATURE_SIZE + varintSize(block.transactions.length)
+  if (block.transactions.length === 0) {
+    return header
+  }
+
+  const legacy: any = unwrapResponse(await client.call('condenser_api', 'get_block', [block.block_num]))
+  const transactions: any[] = legacy?.transactions ?? []
+  const operations = transactions.flatMap((tx) => tx.operations)
+  const combined = unwrapResponse(await client.call('condenser_api', 'get_transaction_hex', [{
+    ref_block_num: 0,
+    ref_block_prefix: 0,
+    expiration: '1970-01-01T00:00:00',
+    operations,
+    extensions: [],
+    signatures: []
+  }])) as string
+  // Strip the framing of the combined transaction to get the operations alone
+  const operationsSize = combined.length / 2 - TRANSACTION_HEADER_SIZE - varintSize(operations.length) - varintSize(0) - varintSize(0)
+
+  return transactions.reduce((size, tx) => {
+    const txExtensions: unknown[] = tx.extensions ?? []
+    const signatures: unknown[] = tx.signatures ?? []
+    return size + TRANSACTION_HEADER_SIZE + varintSize(tx.operations.length) +
+      varintSize(txExtensions.length) + txExtensions.length +
+      varintSize(signatures.length) + SIGNATURE_SIZE * signatures.length
+  }, header + operationsSize)
+}
+
+/**
+ * Virtual operations produced in blocks `from` to `to - 1`, following the
+ * node's pagination until the whole range is covered.
+ */
+export async function getVirtualOperations(client: HiveClient, from: number, to: number, includeReversible: boolean): Promise<BlockOperation[]> {
+  const operations: BlockOperation[] = []
+  let begin = from
+  let operationBegin = 0
+  while (begin < to) {
+    const result: any = unwrapResponse(await client.call('account_history_api', 'enum_virtual_ops', {
+      block_range_begin: begin,
+      block_range_end: to,
+      include_reversible: includeReversible,
+      ...(operationBegin ? { operation_begin: operationBegin } : {})
+    }))
+    operations.push(...(result?.ops ?? []).map(toBlockOperation))
+    // A zero next_operation_begin means the node has returned everything
+    if (!result?.next_operation_begin) break
+    begin = result.next_block_range_begin
+    operationBegin = result.next_operation_begin
+  }
+  return operations
+}
+
+export interface OperationFilter {
+  /** Operation names; any when empty. */
+  types?: string[]
+  /** Accounts of which at least one must be involved. */
+  accounts?: string[]
+  /** custom_json ids; other operations do not match when set. */
+  customJsonIds?: string[]
+  /** Communities (hive-123456): top-level posts in them and their community custom_json. */
+  communities?: string[]
+}
+
+// Body fields naming an account, across real and virtual operations
+const ACCOUNT_FIELDS = [
+  'account', 'author', 'parent_author', 'voter', 'from', 'to', 'owner', 'creator', 'new_account_name',
+  'publisher', 'witness', 'proxy', 'delegator', 'delegatee', 'from_account', 'to_account', 'curator',
+  'comment_author', 'benefactor', 'producer', 'receiver', 'current_owner', 'open_owner', 'agent', 'who',
+  'recovery_account', 'account_to_recover', 'new_recovery_account', 'reset_account', 'proposal_owner',
+  'worker_account', 'payer', 'approver'
+]
+const ACCOUNT_LIST_FIELDS = ['required_auths', 'required_posting_auths', 'required_active_auths', 'required_owner_auths']
+
+/** Accounts an operation names, e.g. sender and receiver of a transfer. */
+export function involvedAccounts(value: Record<string, any>): Set<string> {
+  const accounts = new Set<string>()
+  for (const field of ACCOUNT_FIELDS) {
+    if (typeof value[field] === 'string' && value[field] !== '') accounts.add(value[field])
+  }
+  for (const field of ACCOUNT_LIST_FIELDS) {
+    if (Array.isArray(value[field])) value[field].forEach((account: string) => accounts.add(account))
+  }
+  return accounts
+}
+
+function communityOf(op: BlockOperation): string | null {
+  if (op.type === 'comment' && op.value.parent_author === '' && /^hive-\d+$/.test(op.value.parent_permlink)) {
+    return op.value.parent_permlink
+  }
+  if (op.type === 'custom_json' && op.value.id === 'community') {
+    try {
+      const [, payload] = JSON.parse(op.value.json)
+      return typeof payload?.community === 'string' ? payload.community : null
+    } catch {
+      return null
+    }
+  }
+  return null
+}
+
+/** Normalized filter; unknown operation types are a usage error. */
+export function createOperationFilter(filter: OperationFilter): OperationFilter {
+  const types = (filter.types ?? []).map(normalizeOperationName)
+  const unknown = types.filter((type) => !OPERATION_NAMES.includes(type))
+  if (unknown.length > 0) {
+    throw usageError(`Unknown operation type${unknown.length > 1 ? 's' : ''}: ${unknown.join(', ')}`)
+  }
+  return { ...filter, types }
+}
+
+/** Whether an operation passes every part of the filter that is set. */
+export function matchesFilter(op: BlockOperation, filter: OperationFilter): boolean {
+  if (filter.types?.length && !filter.types.includes(op.type)) return false
+  if (filter.customJsonIds?.length && !(op.type === 'custom_json' && filter.customJsonIds.includes(op.value.id))) return false
+  if (filter.communities?.length) {
+    const community = communityOf(op)
+    if (!community || !filter.communities.includes(community)) return false
+  }
+  if (filter.accounts?.length) {
+    const accounts = involvedAccounts(op.value)
+    if (!filter.accounts.some((account) => accounts.has(account))) return false
+  }
+  return true
+}
+
+export interface StreamOptions {
+  /** First block to read; the current head (or LIB) when omitted. */
+  fromBlock?: number
+  /** Last block to read; follow the chain forever when omitted. */
+  toBlock?: number
+  /** Follow the last irreversible block instead of the head. */
+  irreversible?: boolean
+  /** Also read virtual operations. */
+  virtual?: boolean
+  /** Called when a request failed and is about to be retried. */
+  onRetry?: (error: Error, block: number, delayMs: number) => void
+}
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms))
+
+// JSON-RPC invalid request, method not found and invalid params
+const PERMANENT_RPC_CODES = new Set([-32600, -32601, -32602])
+
+/**
+ * Errors a retry cannot fix: bad arguments, missing configuration, or a node
+ * that does not serve the API at all (account_history_api for --virtual).
+ */
+function isPermanentError(error: unknown): boolean {
+  if (!(error instanceof CliError)) {
+    return false
+  }
+  if (error.code === 'USAGE' || error.code === 'CONFIG') {
+    return true
+  }
+  const details = error.details as any
+  return error.code === 'RPC'
+    && (PERMANENT_RPC_CODES.has(details?.code) || /could not find (api|method)/i.test(String(details?.message ?? '')))
+}
+
+/**
+ * Follow the chain block by block, yielding each block's operations (real
+ * ones in order, then virtual ones). Failed requests are retried with backoff
+ * from the same block, so no block is ever skipped; the generator ends at
+ * `toBlock`, or throws on an error that retrying cannot fix.
+ */
+export async function* streamOperations(client: HiveClient, options: StreamOptions): AsyncGenerator<{ block: number; operations: BlockOperation[] }> {
+  let next = options.fromBlock
+  let failures = 0
+
+  while (options.toBlock === undefined || next === undefined || next <= options.toBlock) {
+    try {
+      const head = await getChainHead(client, options.irreversible)
+      next ??= head
+      const last = Math.min(head, options.toBlock ?? Infinity)
+      if (next > last) {
+        failures = 0
+        await sleep(BLOCK_INTERVAL_MS)
+        continue
+      }
+
+      const blocks = await getBlockRange(client, next, last - next + 1)
+      if (blocks.length === 0) {
+        // The node has not caught up with its own head yet
+        await sleep(BLOCK_INTERVAL_MS)
+        continue
+      }
+      const end = next + blocks.length
+      const virtual = options.virtual ? await getVirtualOperations(client, next, end, !options.irreversible) : []
+      failures = 0
+
+      for (const block of blocks) {
+        const operations = [...blockOperations(block), ...virtual.filter((op) => op.block === block.block_num)]
+        yield { block: block.block_num, operations }
+        next = block.block_num + 1
+      }
+    } catch (error: any) {
+      if (isPermanentError(error)) {
+        throw error
+      }
+      failures += 1
+      const delay = Math.min(BLOCK_INTERVAL_MS * 2 ** (failures - 1), MAX_RETRY_DELAY_MS)
+      options.onRetry?.(error, next ?? 0, delay)
+      await sleep(delay)
+    }
+  }
+}
@@ -0,0 +1,119 @@
+/**
+ * Recognise the assertion texts hived returns for common rejections and turn
+ * them into a message a user can act on. Patterns match the node's wording
+ * loosely since it differs between hived versions and API layers.
+ */
+
+export type ChainErrorReason =
+  | 'missing_authority'
+  | 'insufficient_rc'
+  | 'duplicate_transaction'
+  | 'expired_transaction'
+  | 'rate_limited'
+  | 'identical_vote'
+  | 'comment_paid_out'
+  | 'insufficient_balance'
+
+export interface ChainErrorInfo {
+  reason: ChainErrorReason
+  message: string
+  suggestion: string
+  account?: string
+  role?: 'posting' | 'active' | 'owner'
+  rc?: { current: string; needed: string }
+}
+
+interface Rule {
+  reason: ChainErrorReason
+  pattern: RegExp
+  describe: (match: RegExpMatchArray) => Omit<ChainErrorInfo, 'reason'>
+}
+
+const KEY_FIELDS = { posting: 'postingKey', active: 'activeKey', owner: 'ownerKey' } as const
+
+const RULES: Rule[] = [
+  {
+    reason: 'missing_authority',
+    pattern: /missing (posting|active|owner) authority:?\s*@?([a-z0-9.-]+)?/i,
+    describe: (match) => {
+      const role = match[1]!.toLowerCase() as 'posting' | 'active' | 'owner'
+      const account = match[2]
+      return {
+        role,
+        account,
+        message: `Transaction needs the ${role} authority of ${account ? `@${account}` : 'the account'}, but was not signed with it`,
+        suggestion: `Store the ${role} key with "hive config set ${KEY_FIELDS[role]} <wif>" (or check that --account matches the key)`
+      }
+    }
+  },
+  {
+    reason: 'insufficient_rc',
+    pattern: /account:?\s*([a-z0-9.-]+) has (\d+) rc, needs (\d+) rc/i,
+    describe: (match) => ({
+      account: match[1],
+      rc: { current: match[2]!, needed: match[3]! },
+      message: `@${match[1]} does not have enough Resource Credits (has ${match[2]}, needs ${match[3]})`,
+      suggestion: 'Wait for RC to regenerate, power up HIVE, or ask for an RC delegation'
+    })
+  },
+  {
+    reason: 'duplicate_transaction',
+    pattern: /duplicate transaction check failed/i,
+    describe: () => ({
+      message: 'This exact transaction was already broadcast',
+      suggestion: 'Nothing to do: the first broadcast will be included in a block; check it with "hive tx get <txid>"'
+    })
+  },
+  {
+    reason: 'expired_transaction',
+    pattern: /transaction expiration exception|trx\.expiration|is_expired|tapos|ref_block/i,
+    describe: () => ({
+      message: 'Transaction expired or references a block the node does not know',
+      suggestion: 'Build and sign the transaction again; for offline signing, broadcast within an hour of --unsigned'
+    })
+  },
+  {
+    reason: 'identical_vote',
+    pattern: /current vote on this comment is identical to this vote|already voted in a similar way/i,
+    describe: () => ({
+      message: 'You already voted on this post with this weight',
+      suggestion: 'Nothing to do; vote again with a different --weight to change it'
+    })
+  },
+  {
+    reason: 'rate_limited',
+    pattern: /(you may only (post|comment) once every [^.]+|can only vote once every [^.]+|maximum number of vote changes)/i,
+    describe: (match) => ({
+      message: `Rate limit: ${match[1]!.replace(/\.$/, '')}`,
+      suggestion: /vote changes/i.test(match[1]!)
+        ? 'Votes on a comment can only be changed a few times'
+        : 'Wait a moment and try again; posts need 5 minutes between them, comments and votes 3 seconds'
+    })
+  },
+  {
+    reason: 'comment_paid_out',
+    pattern: /(after payout|already (been )?paid out|cashout_time|comment is archived|cannot (edit|update|delete|vote)[^.]*payout)/i,
+    describe: () => ({
+      message: 'The post has already been paid out and can no longer be changed or voted on',
+      suggestion: 'Edits, deletes and votes are only possible during the 7-day payout window; publish a new post instead'
+    })
+  },
+  {
+    reason: 'insufficient_balance',
+    pattern: /(does not have (sufficient|enough) [^.:]*|insufficient (funds|balance)[^.:]*)/i,
+    describe: (match) => ({
+      message: `Insufficient balance: the account ${match[1]!.replace(/^insufficient/i, 'has insufficient')}`,
+      suggestion: 'Check the balance with "hive balance <account>"; liquid, savings and staked HIVE are separate balances'
+    })
+  }
+]
+
+export function classifyChainError(nodeMessage: string): ChainErrorInfo | null {
+  for (const rule of RULES) {
+    const match = nodeMessage.match(rule.pattern)
+    if (match) {
+      return { reason: rule.reason, ...rule.describe(match) }
+    }
+  }
+  return null
+}
@@ -0,0 +1,386 @@
+import { Command } from 'commander'
+import chalk from 'chalk'
+import fs from 'fs-extra'
+import { getConfig } from '../config.js'
+import { CliError, configError, toCliError, usageError } from '../errors.js'
+import type { HiveClient } from '../hive-client.js'
+import { validateOperations } from '../operation-schema.js'
+import { resolveSigningRole, type AuthorityRole } from '../operations.js'
+import { fail, printResult } from '../output.js'
+import type { HiveOperation } from '../types.js'
+import {
+  addWaitOptions,
+  createSpinner,
+  getAccountName,
+  getClient,
+  getTxOutputMode,
+  getWaitOptions,
+  isDryRun,
+  isJsonMode,
+  requireSigningKey,
+  waitForConfirmation,
+  type WaitOptions
+} from '../utils.js'
+
+// HIVE_MAX_TRANSACTION_SIZE
+const MAX_TRANSACTION_SIZE = 64 * 1024
+// Room left for the header and signature when packing by JSON length
+const TRANSACTION_OVERHEAD = 256
+
+interface BatchLine {
+  line: number
+  operations: HiveOperation[]
+  keyType: AuthorityRole
+  size: number
+}
+
+interface BatchGroup {
+  keyType: AuthorityRole
+  lines: BatchLine[]
+}
+
+interface ReportEntry {
+  line: number
+  status: 'ok' | 'failed'
+  tx_id?: string
+  /** With --wait: how far the transaction got (included or irreversible) and its block. */
+  confirmation?: string
+  block_num?: number
+  error?: string
+}
+
+/** Split a command line into arguments, honouring single and double quotes. */
+function tokenize(input: string): string[] {
+  const tokens: string[] = []
+  const pattern = /"((?:\\.|[^"\\])*)"|'([^']*)'|(\S+)/g
+  let match: RegExpExecArray | null
+  while ((match = pattern.exec(input)) !== null) {
+    tokens.push(match[1] !== undefined ? match[1].replace(/\\(.)/g, '$1') : (match[2] ?? match[3] ?? ''))
+  }
+  return tokens
+}
+
+function followOperation(account: string, target: string, what: string[]): HiveOperation {
+  return {
+    type: 'custom_json',
+    value: {
+      required_auths: [],
+      required_posting_auths: [account],
+      id: 'follow',
+      json: JSON.stringify(['follow', { follower: account, following: target, what }])
+    }
+  }
+}
+
+type LineBuilder = (tokens: string[], account: string) => HiveOperation[]
+
+function parseFlags(name: string, tokens: string[], setup: (command: Command) => Command): { opts: Record<string, any>; args: string[] } {
+  const command = setup(new Command(name))
+    .exitOverride()
+    .configureOutput({ writeErr: () => {}, writeOut: () => {} })
+  command.parse(tokens, { from: 'user' })
+  return { opts: command.opts(), args: command.args }
+}
+
+const LINE_BUILDERS: Record<string, LineBuilder> = {
+  vote: (tokens, account) => {
+    const { opts } = parseFlags('vote', tokens, (cmd) => cmd
+      .requiredOption('-a, --author <name>')
+      .requiredOption('-p, --permlink <string>')
+      .option('-w, --weight <number>', '', '100'))
+    return [{ type: 'vote', value: { voter: account, author: opts.author, permlink: opts.permlink, weight: parseInt(opts.weight) * 100 } }]
+  },
+  transfer: (tokens, account) => {
+    const { opts } = parseFlags('transfer', tokens, (cmd) => cmd
+      .requiredOption('-t, --to <name>')
+      .requiredOption('-a, --amount <string>')
+      .option('-m, --memo <string>', '', ''))
+    return [{ type: 'transfer', value: { from: account, to: opts.to, amount: opts.amount, memo: opts.memo } }]
+  },
+  follow: (tokens, account) => [followOperation(account, parseFlags('follow', tokens, (cmd) => cmd.argument('<target>')).args[0]!, ['blog'])],
+  unfollow: (tokens, account) => [followOperation(account, parseFlags('unfollow', tokens, (cmd) => cmd.argument('<target>')).args[0]!, [])],
+  mute: (tokens, account) => [followOperation(account, parseFlags('mute', tokens, (cmd) => cmd.argument('<target>')).args[0]!, ['ignore'])],
+  'custom-json': (tokens, account) => {
+    const { opts } = parseFlags('custom-json', tokens, (cmd) => cmd
+      .requiredOption('-i, --id <string>')
+      .requiredOption('-j, --json <string>')
+      .option('--required-active <accounts>', '', ''))
+    const active = opts.requiredActive ? String(opts.requiredActive).split(',').map((a) => a.trim()) : []
+    return [{
+      type: 'custom_json',
+      value: {
+        required_auths: active,
+        required_posting_auths: active.length > 0 ? [] : [account],
+        id: opts.id,
+        json: opts.json
+      }
+    }]
+  }
+}
+
+function parseLine(text: string, line: number, account: string): BatchLine {
+  let raw: unknown
+  if (text.startsWith('{') || text.startsWith('[')) {
+    // A line may hold one operation or an array of operations
+    raw = JSON.parse(text)
+  } else {
+    const [name, ...args] = tokenize(text)
+    const builder = LINE_BUILDERS[name ?? '']
+    if (!builder) {
+      throw new Error(`Unsupported command "${name}". Supported: ${Object.keys(LINE_BUILDERS).join(', ')}`)
+    }
+    raw = builder(args, account)
+  }
+
+  const operations = validateOperations(raw)
+  const { role } = resolveSigningRole(operations.map((op) => [op.type, op.value]))
+
+  return {
+    line,
+    operations,
+    keyType: role,
+    size: JSON.stringify(operations.map((op) => [op.type, op.value])).length
+  }
+}
+
+/**
+ * Pack consecutive lines with the same key role into transactions, estimating
+ * their size from the JSON length. fitGroups checks the real size afterwards.
+ */
+function packLines(lines: BatchLine[], maxOps: number): BatchGroup[] {
+  const groups: BatchGroup[] = []
+  let current: BatchGroup | null = null
+  let currentSize = 0
+  let currentOps = 0
+
+  for (const line of lines) {
+    const fits = current
+      && current.keyType === line.keyType
+      && currentSize + line.size <= MAX_TRANSACTION_SIZE - TRANSACTION_OVERHEAD
+      && currentOps + line.operations.length <= maxOps
+    if (!fits) {
+      current = { keyType: line.keyType, lines: [] }
+      groups.push(current)
+      currentSize = 0
+      currentOps = 0
+    }
+    current!.lines.push(line)
+    currentSize += line.size
+    currentOps += line.operations.length
+  }
+
+  return groups
+}
+
+/** Serialized size of the group's transaction as the chain measures it, with one signature. */
+async function getGroupSize(client: HiveClient, group: BatchGroup): Promise<number> {
+  // The header fields have a fixed width, so placeholders give the same size
+  return await client.getTransactionSize({
+    ref_block_num: 0,
+    ref_block_prefix: 0,
+    expiration: '1970-01-01T00:00:00',
+    operations: group.lines.flatMap(({ operations }) => operations.map((op): [string, Record<string, unknown>] => [op.type, op.value])),
+    extensions: []
+  })
+}
+
+/**
+ * Split packed groups until each transaction is within the maximum size,
+ * moving trailing lines into a new transaction. A single line over the limit throws.
+ */
+async function fitGroups(client: HiveClient, groups: BatchGroup[]): Promise<BatchGroup[]> {
+  const fitted: BatchGroup[] = []
+  const queue = [...groups]
+  while (queue.length > 0) {
+    const group = queue.shift()!
+    const overflow: BatchLine[] = []
+    while ((await getGroupSize(client, group)) > MAX_TRANSACTION_SIZE) {
+      if (group.lines.length === 1) {
+        throw usageError(`Line ${group.lines[0]!.line} does not fit in a transaction (${MAX_TRANSACTION_SIZE / 1024} KB limit)`)
+      }
+      overflow.unshift(group.lines.pop()!)
+    }
+    fitted.push(group)
+    if (overflow.length > 0) {
+      queue.unshift({ keyType: group.keyType, lines: overflow })
+    }
+  }
+  return fitted
+}
+
+async function readReport(path: string): Promise<Map<number, ReportEntry>> {
+  const entries = new Map<number, ReportEntry>()
+  if (!(await fs.pathExists(path))) {
+    return entries
+  }
+  const content = await fs.readFile(path, 'utf8')
+  for (const text of content.split('\n')) {
+    if (!text.trim()) continue
+    const entry = JSON.parse(text) as ReportEntry
+    // Later entries (from resumed runs) win
+    entries.set(entry.line, entry)
+  }
+  return entries
+}
+
+export const batchCommand = new Command('batch')
+  .description('Broadcast operations from a JSONL file, packed into as few transactions as possible')
+  .argument('<file>', 'JSONL file: one operation, array of operations, or command line (vote, transfer, …) per line')
+  .option('--report <file>', 'Per-line result report (JSONL)', '')
+  .option('--resume', 'Skip lines the report already marks as successful')
+  .option('--max-ops <number>', 'Maximum operations per transaction', '50')
+  .option('--continue-on-error', 'Keep going after a failed transaction instead of stopping')
+  .action(async (path: string, options) => {
+    if (getTxOutputMode()) {
+      const error = usageError('batch broadcasts several transactions and cannot write them with --unsigned or --sign-only')
+      error.hint = 'Use --dry-run to see how the lines are packed, then write each transaction with "hive broadcast --unsigned"'
+      fail(error)
+    }
+
+    const config = await getConfig()
+    const account = getAccountName(config, {})
+    if (!account) {
+      fail(configError('Account is not configured. Run "hive config" or set HIVE_ACCOUNT.'))
+    }
+    const reportPath = options.report || `${path}.report.jsonl`
+    const maxOps = parseInt(options.maxOps, 10) || 50
+    let wait: WaitOptions | undefined
+    try {
+      wait = getWaitOptions(options)
+    } catch (error: any) {
+      fail(error)
+    }
+
+    let content: string
+    try {
+      content = await fs.readFile(path, 'utf8')
+    } catch (error: any) {
+      fail(usageError(`Could not read batch file: ${error.message}`))
+    }
+
+    const report = options.resume ? await readReport(reportPath) : new Map<number, ReportEntry>()
+    const lines: BatchLine[] = []
+    const errors: string[] = []
+    content.split('\n').forEach((raw, index) => {
+      const text = raw.trim()
+      const line = index + 1
+      if (!text || text.startsWith('#') || report.get(line)?.status === 'ok') {
+        return
+      }
+      try {
+        lines.push(parseLine(text, line, account))
+      } catch (error: any) {
+        errors.push(`line ${line}: ${error.message}`)
+      }
+    })
+
+    if (errors.length > 0) {
+      fail(usageError(`Invalid batch file:\n  ${errors.join('\n  ')}`))
+    }
+
+    if (lines.length === 0) {
+      console.log(chalk.yellow(options.resume ? 'Nothing left to broadcast.' : 'No operations in batch file.'))
+      return
+    }
+
+    if (!isDryRun()) {
+      try {
+        for (const role of new Set(lines.map(({ keyType }) => keyType))) {
+          await requireSigningKey(lines.filter(({ keyType }) => keyType === role).flatMap(({ operations }) => operations), role)
+        }
+      } catch (error: any) {
+        fail(error)
+      }
+    }
+
+    const client = await getClient()
+    let groups: BatchGroup[] = []
+    const sizeSpinner = createSpinner('Checking transaction sizes...').start()
+    try {
+      groups = await fitGroups(client, packLines(lines, maxOps))
+      sizeSpinner.stop()
+    } catch (error: any) {
+      fail(error, sizeSpinner)
+    }
+
+    if (isDryRun()) {
+      const plan = groups.map((group, index) => ({
+        transaction: index + 1,
+        key_type: group.keyType,
+        lines: group.lines.map(({ line }) => line),
+        operations: group.lines.reduce((count, { operations }) => count + operations.length, 0)
+      }))
+      if (isJsonMode()) {
+        printResult({ dry_run: true, transactions: plan })
+      } else {
+        console.log(chalk.yellow('Dry run: nothing was signed or broadcast'))
+        for (const entry of plan) {
+          console.log(`  tx ${entry.transaction}: ${entry.operations} op(s), ${entry.key_type} key, lines ${entry.lines.join(', ')}`)
+        }
+      }
+      return
+    }
+
+    if (!options.resume) {
+      await fs.writeFile(reportPath, '')
+    }
+
+    const spinner = createSpinner('Broadcasting batch...').start()
+    client.onWarning = (message) => {
+      spinner.warn(message)
+      spinner.start()
+    }
+    let succeeded = 0
+    let failed = 0
+    let lastError: CliError | null = null
+
+    for (const [index, group] of groups.entries()) {
+      const first = group.lines[0]!.line
+      const last = group.lines[group.lines.length - 1]!.line
+      spinner.text = `Transaction ${index + 1}/${groups.length} (lines ${first}-${last})...`
+
+      let entries: ReportEntry[]
+      let txId: string | undefined
+      try {
+        const operations = group.lines.flatMap(({ operations }) => operations)
+        txId = (await client.broadcast(operations, group.keyType)).tx_id
+        let confirmed: Pick<ReportEntry, 'confirmation' | 'block_num'> = {}
+        if (wait) {
+          const confirmation = await waitForConfirmation(client, txId, wait, spinner)
+          confirmed = { confirmation: confirmation.status, block_num: confirmation.block_num }
+        }
+        entries = group.lines.map(({ line }) => ({ line, status: 'ok', tx_id: txId, ...confirmed }))
+        succeeded += group.lines.length
+      } catch (error: any) {
+        lastError = toCliError(error)
+        if (txId) {
+          // Broadcast but not confirmed in time: a resumed run must not send it again
+          entries = group.lines.map(({ line }) => ({ line, status: 'ok', tx_id: txId, error: error.message }))
+          succeeded += group.lines.length
+        } else {
+          entries = group.lines.map(({ line }) => ({ line, status: 'failed', error: error.message }))
+          failed += group.lines.length
+        }
+      }
+
+      await fs.appendFile(reportPath, entries.map((entry) => JSON.stringify(entry)).join('\n') + '\n')
+
+      if (lastError && !options.continueOnError) {
+        fail(new CliError(
+          lastError.code,
+          `Transaction ${index + 1} ${txId ? `was broadcast as ${txId} but not confirmed` : 'failed'}: ${lastError.message}\nReport written to ${reportPath}. Fix the problem and re-run with --resume.`,
+          { report: reportPath, succeeded, failed, details: lastError.details }
+        ), spinner)
+      }
+    }
+
+    const summary = `${succeeded} line(s) broadcast in ${groups.length} transaction(s)${failed ? `, ${failed} failed` : ''}`
+    if (lastError) {
+      fail(new CliError(lastError.code, `${summary}\nReport written to ${reportPath}`, { report: reportPath, succeeded, failed }), spinner)
+    }
+    spinner.succeed(summary)
+    console.log(chalk.dim(`Report written to ${reportPath}`))
+    printResult({ report: reportPath, succeeded, failed, transactions: groups.length })
+  })
+
+addWaitOptions(batchCommand)
@@ -1,13 +1,19 @@
 import { Command } from 'commander'
 import chalk from 'chalk'
 import fs from 'fs-extra'
-import inquirer from 'inquirer'
 import { getConfig } from '../config.js'
+import { configError, usageError } from '../errors.js'
+import { validateOperations } from '../operation-schema.js'
+import { describeOperationAuthority, resolveSigningRole } from '../operations.js'
+import { fail, printResult } from '../output.js'
 import type { HiveOperation } from '../types.js'
 import {
+  addWaitOptions,
+  broadcastOperations,
   createSpinner,
   getAccountName,
   getClient,
+  getWaitOptions,
   hpToVests,
   isJsonMode,
   parseAssetAmount,
@@ -52,14 +58,12 @@ const voteCmd = new Command('vote')
   .option('--url <url>', 'Post URL (PeakD, HiveBlog, Ecency…) — replaces --author and --permlink')
   .requiredOption('-w, --weight <number>', 'Vote weight (1-100)', '100')
   .option('--account <name>', 'Voter account name (defaults to configured account)')
-  .option('--wait', 'Wait for transaction confirmation before exiting')
   .action(async (options) => {
     const config = await getConfig()
     const voter = getAccountName(config, options)
 
     if (!voter) {
-      console.error(chalk.red('Account not specified. Use --account, HIVE_ACCOUNT, or configure with "hive config"'))
-      process.exit(1)
+      fail(configError('Account not specified. Use --account, HIVE_ACCOUNT, or configure with "hive config"'))
     }
 
     // Resolve author/permlink from --url or explicit flags
@@ -67,12 +71,11 @@ const voteCmd = new Command('vote')
     let permlink = options.permlink
     if (options.url) {
       const parsed = parseHiveUrl(options.url)
-      if (!parsed) { console.error(chalk.red('Could not parse --url')); process.exit(1) }
+      if (!parsed) { fail(usageError('Could not parse --url')) }
       author = parsed.author; permlink = parsed.permlink
     }
     if (!author || !permlink) {
-      console.error(chalk.red('Provide either --url or both --author and --permlink'))
-      process.exit(1)
+      fail(usageError('Provide either --url or both --author and --permlink'))
     }
 
     const weight = parseInt(options.weight) * 100 // Convert to basis points
@@ -86,17 +89,9 @@ const voteCmd = new Command('vote')
 
     const spinner = createSpinner('Broadcasting vote...').start()
     try {
-      const client = await getClient()
-      const result: any = await client.broadcast(operations, 'posting')
-      if (options.wait) {
-        spinner.text = 'Waiting for confirmation...'
-        await client.waitForTransaction(result?.result?.tx_id ?? result?.tx_id)
-      }
-      spinner.succeed('Vote broadcasted successfully')
-      console.log(JSON.stringify(result, null, 2))
+      await broadcastOperations(operations, 'posting', { spinner, successMessage: 'Vote broadcasted successfully', wait: getWaitOptions(options) })
     } catch (error: any) {
-      spinner.fail(error.message)
-      process.exit(1)
+      fail(error, spinner)
     }
   })
 
@@ -119,21 +114,18 @@ const publishCommand = new Command('publish')
   .option('--beneficiaries <json>', 'Beneficiaries JSON (e.g., "[{\"account\":\"foo\",\"weight\":1000}]")')
   .option('--burn-rewards', 'Burn all post rewards by routing them to the null account')
   .option('--account <name>', 'Author account name (defaults to configured account)')
-  .option('--wait', 'Wait for transaction confirmation before exiting')
   .action(async (options) => {
     const config = await getConfig()
     const author = getAccountName(config, options)
 
     if (!author) {
-      console.error(chalk.red('Account not specified. Use --account, HIVE_ACCOUNT, or configure with "hive config"'))
-      process.exit(1)
+      fail(configError('Account not specified. Use --account, HIVE_ACCOUNT, or configure with "hive config"'))
     }
 
     if (options.parentUrl) {
       const parsed = parseHiveUrl(options.parentUrl)
       if (!parsed) {
-        console.error(chalk.red('Could not parse --parent-url'))
-        process.exit(1)
+        fail(usageError('Could not parse --parent-url'))
       }
       options.parentAuthor = parsed.author
       options.parentPermlink = parsed.permlink
@@ -144,14 +136,12 @@ const publishCommand = new Command('publish')
       try {
         body = await readContent(options.bodyFile)
       } catch (error: any) {
-        console.error(chalk.red(`Failed to read body file: ${error.message}`))
-        process.exit(1)
+        fail(usageError(`Failed to read body file: ${error.message}`))
       }
     }
 
     if (!body) {
-      console.error(chalk.red('Body is required. Use --body or --body-file.'))
-      process.exit(1)
+      fail(usageError('Body is required. Use --body or --body-file.'))
     }
 
     let userMetadata: Record<string, unknown> = {}
@@ -159,8 +149,7 @@ const publishCommand = new Command('publish')
       try {
         userMetadata = JSON.parse(options.metadata)
       } catch {
-        console.error(chalk.red('Invalid JSON in metadata option'))
-        process.exit(1)
+        fail(usageError('Invalid JSON in metadata option'))
       }
     }
 
@@ -200,8 +189,7 @@ const publishCommand = new Command('publish')
           }
           extensions = [[0, { beneficiaries }]]
         } catch (error: any) {
-          console.error(chalk.red(`Invalid JSON in beneficiaries option: ${error.message}`))
-          process.exit(1)
+          fail(usageError(`Invalid JSON in beneficiaries option: ${error.message}`))
         }
       }
 
@@ -238,16 +226,13 @@ const publishCommand = new Command('publish')
         spinner.text = 'Broadcasting new comment...'
       }
 
-      const result: any = await client.broadcast(operations, 'posting')
-      if (options.wait) {
-        spinner.text = 'Waiting for confirmation...'
-        await client.waitForTransaction(result?.result?.tx_id ?? result?.tx_id)
-      }
-      spinner.succeed(`Comment ${isEdit ? 'updated' : 'created'} successfully`)
-      console.log(JSON.stringify(result, null, 2))
+      await broadcastOperations(operations, 'posting', {
+        spinner,
+        successMessage: `Comment ${isEdit ? 'updated' : 'created'} successfully`,
+        wait: getWaitOptions(options)
+      })
     } catch (error: any) {
-      spinner.fail(error.message)
-      process.exit(1)
+      fail(error, spinner)
     }
   })
 
@@ -259,14 +244,12 @@ const replyCommand = new Command('reply')
   .option('--body-file <path>', 'Read body from a file')
   .option('--decline-rewards', 'Decline author rewards')
   .option('--account <name>', 'Reply author account name (defaults to configured account)')
-  .option('--wait', 'Wait for transaction confirmation before exiting')
   .action(async (parentAuthor: string, parentPermlink: string, options) => {
     const config = await getConfig()
     const author = getAccountName(config, options)
 
     if (!author) {
-      console.error(chalk.red('Account not specified. Use --account, HIVE_ACCOUNT, or configure with "hive config"'))
-      process.exit(1)
+      fail(configError('Account not specified. Use --account, HIVE_ACCOUNT, or configure with "hive config"'))
     }
 
     let body = options.body
@@ -274,14 +257,12 @@ const replyCommand = new Command('reply')
       try {
         body = await fs.readFile(options.bodyFile, 'utf8')
       } catch (error: any) {
-        console.error(chalk.red(`Failed to read body file: ${error.message}`))
-        process.exit(1)
+        fail(usageError(`Failed to read body file: ${error.message}`))
       }
     }
 
     if (!body) {
-      console.error(chalk.red('Body is required. Use --body or --body-file.'))
-      process.exit(1)
+      fail(usageError('Body is required. Use --body or --body-file.'))
     }
 
     const permlink = `re-${parentAuthor}-${Date.now()}`
@@ -318,17 +299,9 @@ const replyCommand = new Command('reply')
 
     const spinner = createSpinner('Broadcasting reply...').start()
     try {
-      const client = await getClient()
-      const result: any = await client.broadcast(operations, 'posting')
-      if (options.wait) {
-        spinner.text = 'Waiting for confirmation...'
-        await client.waitForTransaction(result?.result?.tx_id ?? result?.tx_id)
-      }
-      spinner.succeed('Reply broadcasted successfully')
-      console.log(JSON.stringify(result, null, 2))
+      await broadcastOperations(operations, 'posting', { spinner, successMessage: 'Reply broadcasted successfully', wait: getWaitOptions(options) })
     } catch (error: any) {
-      spinner.fail(error.message)
-      process.exit(1)
+      fail(error, spinner)
     }
   })
 
@@ -346,8 +319,7 @@ const editCommand = new Command('edit')
     const account = getAccountName(config, options)
 
     if (!account) {
-      console.error(chalk.red('Account not specified. Use --account, HIVE_ACCOUNT, or configure with "hive config"'))
-      process.exit(1)
+      fail(configError('Account not specified. Use --account, HIVE_ACCOUNT, or configure with "hive config"'))
     }
 
     let body = options.body
@@ -355,14 +327,12 @@ const editCommand = new Command('edit')
       try {
         body = await fs.readFile(options.bodyFile, 'utf8')
       } catch (error: any) {
-        console.error(chalk.red(`Failed to read body file: ${error.message}`))
-        process.exit(1)
+        fail(usageError(`Failed to read body file: ${error.message}`))
       }
     }
 
     if (!body) {
-      console.error(chalk.red('Body is required. Use --body or --body-file.'))
-      process.exit(1)
+      fail(usageError('Body is required. Use --body or --body-file.'))
     }
 
     const fetchSpinner = createSpinner('Fetching existing post...').start()
@@ -373,8 +343,7 @@ const editCommand = new Command('edit')
       post = unwrapResult(response)
       fetchSpinner.stop()
     } catch (error: any) {
-      fetchSpinner.fail(error.message)
-      process.exit(1)
+      fail(error, fetchSpinner)
     }
 
     const existingMetadata = parseMetadata(post?.json_metadata)
@@ -410,13 +379,9 @@ const editCommand = new Command('edit')
 
     const spinner = createSpinner('Broadcasting edit...').start()
     try {
-      const client = await getClient()
-      const result = await client.broadcast(operations, 'posting')
-      spinner.succeed('Edit broadcasted successfully')
-      console.log(JSON.stringify(result, null, 2))
+      await broadcastOperations(operations, 'posting', { spinner, successMessage: 'Edit broadcasted successfully', wait: getWaitOptions(options) })
     } catch (error: any) {
-      spinner.fail(error.message)
-      process.exit(1)
+      fail(error, spinner)
     }
   })
 
@@ -425,23 +390,20 @@ const deleteCommentCommand = new Command('delete-comment')
   .option('-a, --author <name>', 'Author of the comment')
   .option('-p, --permlink <string>', 'Permlink of the comment')
   .option('--url <url>', 'Comment URL (PeakD, HiveBlog, Ecency…) — replaces --author and --permlink')
-  .option('--wait', 'Wait for transaction confirmation before exiting')
   .action(async (options) => {
     let author = options.author
     let permlink = options.permlink
     if (options.url) {
       const parsed = parseHiveUrl(options.url)
       if (!parsed) {
-        console.error(chalk.red('Could not parse --url'))
-        process.exit(1)
+        fail(usageError('Could not parse --url'))
       }
       author = parsed.author
       permlink = parsed.permlink
     }
 
     if (!author || !permlink) {
-      console.error(chalk.red('Provide either --url or both --author and --permlink'))
-      process.exit(1)
+      fail(usageError('Provide either --url or both --author and --permlink'))
     }
 
     const operations: HiveOperation[] = [
@@ -453,17 +415,9 @@ const deleteCommentCommand = new Command('delete-comment')
 
     const spinner = createSpinner('Deleting comment...').start()
     try {
-      const client = await getClient()
-      const result: any = await client.broadcast(operations, 'posting')
-      if (options.wait) {
-        spinner.text = 'Waiting for confirmation...'
-        await client.waitForTransaction(result?.result?.tx_id ?? result?.tx_id)
-      }
-      spinner.succeed('Comment deleted successfully')
-      console.log(JSON.stringify(result, null, 2))
+      await broadcastOperations(operations, 'posting', { spinner, successMessage: 'Comment deleted successfully', wait: getWaitOptions(options) })
     } catch (error: any) {
-      spinner.fail(error.message)
-      process.exit(1)
+      fail(error, spinner)
     }
   })
 
@@ -476,8 +430,7 @@ const followCommand = new Command('follow')
     const account = getAccountName(config, options)
 
     if (!account) {
-      console.error(chalk.red('Account not specified. Use --account, HIVE_ACCOUNT, or configure with "hive config"'))
-      process.exit(1)
+      fail(configError('Account not specified. Use --account, HIVE_ACCOUNT, or configure with "hive config"'))
     }
 
     const operations: HiveOperation[] = [
@@ -501,13 +454,9 @@ const followCommand = new Command('follow')
 
     const spinner = createSpinner('Broadcasting follow...').start()
     try {
-      const client = await getClient()
-      const result = await client.broadcast(operations, 'posting')
-      spinner.succeed('Follow broadcasted successfully')
-      console.log(JSON.stringify(result, null, 2))
+      await broadcastOperations(operations, 'posting', { spinner, successMessage: 'Follow broadcasted successfully', wait: getWaitOptions(options) })
     } catch (error: any) {
-      spinner.fail(error.message)
-      process.exit(1)
+      fail(error, spinner)
     }
   })
 
@@ -520,8 +469,7 @@ const unfollowCommand = new Command('unfollow')
     const account = getAccountName(config, options)
 
     if (!account) {
-      console.error(chalk.red('Account not specified. Use --account, HIVE_ACCOUNT, or configure with "hive config"'))
-      process.exit(1)
+      fail(configError('Account not specified. Use --account, HIVE_ACCOUNT, or configure with "hive config"'))
     }
 
     const operations: HiveOperation[] = [
@@ -545,13 +493,9 @@ const unfollowCommand = new Command('unfollow')
 
     const spinner = createSpinner('Broadcasting unfollow...').start()
     try {
-      const client = await getClient()
-      const result = await client.broadcast(operations, 'posting')
-      spinner.succeed('Unfollow broadcasted successfully')
-      console.log(JSON.stringify(result, null, 2))
+      await broadcastOperations(operations, 'posting', { spinner, successMessage: 'Unfollow broadcasted successfully', wait: getWaitOptions(options) })
     } catch (error: any) {
-      spinner.fail(error.message)
-      process.exit(1)
+      fail(error, spinner)
     }
   })
 
@@ -564,8 +508,7 @@ const muteCommand = new Command('mute')
     const account = getAccountName(config, options)
 
     if (!account) {
-      console.error(chalk.red('Account not specified. Use --account, HIVE_ACCOUNT, or configure with "hive config"'))
-      process.exit(1)
+      fail(configError('Account not specified. Use --account, HIVE_ACCOUNT, or configure with "hive config"'))
     }
 
     const operations: HiveOperation[] = [
@@ -589,13 +532,9 @@ const muteCommand = new Command('mute')
 
     const spinner = createSpinner('Broadcasting mute...').start()
     try {
-      const client = await getClient()
-      const result = await client.broadcast(operations, 'posting')
-      spinner.succeed('Mute broadcasted successfully')
-      console.log(JSON.stringify(result, null, 2))
+      await broadcastOperations(operations, 'posting', { spinner, successMessage: 'Mute broadcasted successfully', wait: getWaitOptions(options) })
     } catch (error: any) {
-      spinner.fail(error.message)
-      process.exit(1)
+      fail(error, spinner)
     }
   })
 
@@ -608,8 +547,7 @@ const unmuteCommand = new Command('unmute')
     const account = getAccountName(config, options)
 
     if (!account) {
-      console.error(chalk.red('Account not specified. Use --account, HIVE_ACCOUNT, or configure with "hive config"'))
-      process.exit(1)
+      fail(configError('Account not specified. Use --account, HIVE_ACCOUNT, or configure with "hive config"'))
     }
 
     const operations: HiveOperation[] = [
@@ -633,13 +571,9 @@ const unmuteCommand = new Command('unmute')
 
     const spinner = createSpinner('Broadcasting unmute...').start()
     try {
-      const client = await getClient()
-      const result = await client.broadcast(operations, 'posting')
-      spinner.succeed('Unmute broadcasted successfully')
-      console.log(JSON.stringify(result, null, 2))
+      await broadcastOperations(operations, 'posting', { spinner, successMessage: 'Unmute broadcasted successfully', wait: getWaitOptions(options) })
     } catch (error: any) {
-      spinner.fail(error.message)
-      process.exit(1)
+      fail(error, spinner)
     }
   })
 
@@ -653,8 +587,7 @@ const reblogCommand = new Command('reblog')
     const account = getAccountName(config, options)
 
     if (!account) {
-      console.error(chalk.red('Account not specified. Use --account, HIVE_ACCOUNT, or configure with "hive config"'))
-      process.exit(1)
+      fail(configError('Account not specified. Use --account, HIVE_ACCOUNT, or configure with "hive config"'))
     }
 
     const operations: HiveOperation[] = [
@@ -678,13 +611,9 @@ const reblogCommand = new Command('reblog')
 
     const spinner = createSpinner('Broadcasting reblog...').start()
     try {
-      const client = await getClient()
-      const result = await client.broadcast(operations, 'posting')
-      spinner.succeed('Reblog broadcasted successfully')
-      console.log(JSON.stringify(result, null, 2))
+      await broadcastOperations(operations, 'posting', { spinner, successMessage: 'Reblog broadcasted successfully', wait: getWaitOptions(options) })
     } catch (error: any) {
-      spinner.fail(error.message)
-      process.exit(1)
+      fail(error, spinner)
     }
   })
 
@@ -703,7 +632,7 @@ const communitySearchCmd = new Command('search')
       spinner.stop()
 
       if (isJsonMode()) {
-        console.log(JSON.stringify(rawResult, null, 2))
+        printResult(rawResult)
         return
       }
 
@@ -718,8 +647,7 @@ const communitySearchCmd = new Command('search')
         console.log(`  Subscribers: ${community.subscribers} | Posts: ${community.num_pending || community.num_posts || community.posts || 0}`)
       }
     } catch (error: any) {
-      spinner.fail(error.message)
-      process.exit(1)
+      fail(error, spinner)
     }
   })
 
@@ -735,14 +663,13 @@ const communityInfoCmd = new Command('info')
       spinner.stop()
 
       if (isJsonMode()) {
-        console.log(JSON.stringify(rawResult, null, 2))
+        printResult(rawResult)
         return
       }
 
-      console.log(JSON.stringify(result, null, 2))
+      printResult(result)
     } catch (error: any) {
-      spinner.fail(error.message)
-      process.exit(1)
+      fail(error, spinner)
     }
   })
 
@@ -758,7 +685,7 @@ const communitySubscribersCmd = new Command('subscribers')
       spinner.stop()
 
       if (isJsonMode()) {
-        console.log(JSON.stringify(rawResult, null, 2))
+        printResult(rawResult)
         return
       }
 
@@ -776,8 +703,7 @@ const communitySubscribersCmd = new Command('subscribers')
         }
       }
     } catch (error: any) {
-      spinner.fail(error.message)
-      process.exit(1)
+      fail(error, spinner)
     }
   })
 
@@ -790,8 +716,7 @@ const communitySubscribeCmd = new Command('subscribe')
     const account = getAccountName(config, options)
 
     if (!account) {
-      console.error(chalk.red('Account not specified. Use --account, HIVE_ACCOUNT, or configure with "hive config"'))
-      process.exit(1)
+      fail(configError('Account not specified. Use --account, HIVE_ACCOUNT, or configure with "hive config"'))
     }
 
     const operations: HiveOperation[] = [
@@ -808,13 +733,9 @@ const communitySubscribeCmd = new Command('subscribe')
 
     const spinner = createSpinner('Broadcasting community subscribe...').start()
     try {
-      const client = await getClient()
-      const result = await client.broadcast(operations, 'posting')
-      spinner.succeed('Community subscribed successfully')
-      console.log(JSON.stringify(result, null, 2))
+      await broadcastOperations(operations, 'posting', { spinner, successMessage: 'Community subscribed successfully', wait: getWaitOptions(options) })
     } catch (error: any) {
-      spinner.fail(error.message)
-      process.exit(1)
+      fail(error, spinner)
     }
   })
 
@@ -827,8 +748,7 @@ const communityUnsubscribeCmd = new Command('unsubscribe')
     const account = getAccountName(config, options)
 
     if (!account) {
-      console.error(chalk.red('Account not specified. Use --account, HIVE_ACCOUNT, or configure with "hive config"'))
-      process.exit(1)
+      fail(configError('Account not specified. Use --account, HIVE_ACCOUNT, or configure with "hive config"'))
     }
 
     const operations: HiveOperation[] = [
@@ -845,13 +765,9 @@ const communityUnsubscribeCmd = new Command('unsubscribe')
 
     const spinner = createSpinner('Broadcasting community unsubscribe...').start()
     try {
-      const client = await getClient()
-      const result = await client.broadcast(operations, 'posting')
-      spinner.succeed('Community unsubscribed successfully')
-      console.log(JSON.stringify(result, null, 2))
+      await broadcastOperations(operations, 'posting', { spinner, successMessage: 'Community unsubscribed successfully', wait: getWaitOptions(options) })
     } catch (error: any) {
-      spinner.fail(error.message)
-      process.exit(1)
+      fail(error, spinner)
     }
   })
 
@@ -869,8 +785,7 @@ const claimCommand = new Command('claim')
     const account = getAccountName(config, options)
 
     if (!account) {
-      console.error(chalk.red('Account not specified. Use --account, HIVE_ACCOUNT, or configure with "hive config"'))
-      process.exit(1)
+      fail(configError('Account not specified. Use --account, HIVE_ACCOUNT, or configure with "hive config"'))
     }
 
     const fetchSpinner = createSpinner('Fetching account rewards...').start()
@@ -882,8 +797,7 @@ const claimCommand = new Command('claim')
       accountInfo = Array.isArray(accounts) ? accounts[0] : undefined
       fetchSpinner.stop()
     } catch (error: any) {
-      fetchSpinner.fail(error.message)
-      process.exit(1)
+      fail(error, fetchSpinner)
     }
 
     const rewardHive = accountInfo?.reward_hive_balance || '0.000 HIVE'
@@ -896,8 +810,8 @@ const claimCommand = new Command('claim')
       parseAssetAmount(rewardVests) > 0
 
     if (!hasRewards) {
-      if (process.env.HIVE_JSON_OUTPUT === '1') {
-        console.log(JSON.stringify({ message: 'No pending rewards to claim.' }, null, 2))
+      if (isJsonMode()) {
+        printResult({ claimed: false, message: 'No pending rewards to claim.' })
       } else {
         console.log(chalk.yellow('No pending rewards to claim.'))
       }
@@ -918,13 +832,9 @@ const claimCommand = new Command('claim')
 
     const spinner = createSpinner('Broadcasting claim...').start()
     try {
-      const client = await getClient()
-      const result = await client.broadcast(operations, 'posting')
-      spinner.succeed('Rewards claimed successfully')
-      console.log(JSON.stringify(result, null, 2))
+      await broadcastOperations(operations, 'posting', { spinner, successMessage: 'Rewards claimed successfully', wait: getWaitOptions(options) })
     } catch (error: any) {
-      spinner.fail(error.message)
-      process.exit(1)
+      fail(error, spinner)
     }
   })
 
@@ -938,24 +848,7 @@ const delegateCommand = new Command('delegate')
     const delegator = getAccountName(config, options)
 
     if (!delegator) {
-      console.error(chalk.red('Account not specified. Use --account, HIVE_ACCOUNT, or configure with "hive config"'))
-      process.exit(1)
-    }
-
-    if (!config?.activeKey) {
-      const { proceed } = await inquirer.prompt([
-        {
-          type: 'confirm',
-          name: 'proceed',
-          message: chalk.yellow('Active key not configured. This operation requires an active key. Continue anyway?'),
-          default: false
-        }
-      ])
-
-      if (!proceed) {
-        console.log(chalk.dim('Cancelled'))
-        process.exit(0)
-      }
+      fail(configError('Account not specified. Use --account, HIVE_ACCOUNT, or configure with "hive config"'))
     }
 
     const amountParts = amount.split(' ')
@@ -963,8 +856,7 @@ const delegateCommand = new Command('delegate')
     const unit = amountParts[1]?.toUpperCase()
 
     if (!Number.isFinite(hpAmount) || unit !== 'HP') {
-      console.error(chalk.red('Amount must be in HP, e.g., "100 HP".'))
-      process.exit(1)
+      fail(usageError('Amount must be in HP, e.g., "100 HP".'))
     }
 
     const propsSpinner = createSpinner('Fetching global properties...').start()
@@ -975,8 +867,7 @@ const delegateCommand = new Command('delegate')
       props = unwrapResult(response)
       propsSpinner.stop()
     } catch (error: any) {
-      propsSpinner.fail(error.message)
-      process.exit(1)
+      fail(error, propsSpinner)
     }
 
     const vestingShares = hpToVests(hpAmount, props)
@@ -994,13 +885,9 @@ const delegateCommand = new Command('delegate')
 
     const spinner = createSpinner('Broadcasting delegation...').start()
     try {
-      const client = await getClient()
-      const result = await client.broadcast(operations, 'active')
-      spinner.succeed('Delegation broadcasted successfully')
-      console.log(JSON.stringify(result, null, 2))
+      await broadcastOperations(operations, 'active', { spinner, successMessage: 'Delegation broadcasted successfully', wait: getWaitOptions(options) })
     } catch (error: any) {
-      spinner.fail(error.message)
-      process.exit(1)
+      fail(error, spinner)
     }
   })
 
@@ -1021,24 +908,7 @@ const profileUpdateCmd = new Command('update')
     const account = getAccountName(config, options)
 
     if (!account) {
-      console.error(chalk.red('Account not specified. Use --account, HIVE_ACCOUNT, or configure with "hive config"'))
-      process.exit(1)
-    }
-
-    if (!config?.activeKey) {
-      const { proceed } = await inquirer.prompt([
-        {
-          type: 'confirm',
-          name: 'proceed',
-          message: chalk.yellow('Active key not configured. This operation requires an active key. Continue anyway?'),
-          default: false
-        }
-      ])
-
-      if (!proceed) {
-        console.log(chalk.dim('Cancelled'))
-        process.exit(0)
-      }
+      fail(configError('Account not specified. Use --account, HIVE_ACCOUNT, or configure with "hive config"'))
     }
 
     const updates: Record<string, string> = {}
@@ -1050,8 +920,7 @@ const profileUpdateCmd = new Command('update')
     if (options.location) updates.location = options.location
 
     if (Object.keys(updates).length === 0) {
-      console.error(chalk.red('No profile fields provided.'))
-      process.exit(1)
+      fail(usageError('No profile fields provided.'))
     }
 
     const fetchSpinner = createSpinner('Fetching existing profile...').start()
@@ -1065,8 +934,7 @@ const profileUpdateCmd = new Command('update')
       existingMetadata = parseMetadata(accountInfo?.posting_json_metadata)
       fetchSpinner.stop()
     } catch (error: any) {
-      fetchSpinner.fail(error.message)
-      process.exit(1)
+      fail(error, fetchSpinner)
     }
 
     const existingProfile = typeof existingMetadata.profile === 'object' && existingMetadata.profile !== null
@@ -1097,13 +965,9 @@ const profileUpdateCmd = new Command('update')
 
     const spinner = createSpinner('Broadcasting profile update...').start()
     try {
-      const client = await getClient()
-      const result = await client.broadcast(operations, 'active')
-      spinner.succeed('Profile update broadcasted successfully')
-      console.log(JSON.stringify(result, null, 2))
+      await broadcastOperations(operations, 'active', { spinner, successMessage: 'Profile update broadcasted successfully', wait: getWaitOptions(options) })
     } catch (error: any) {
-      spinner.fail(error.message)
-      process.exit(1)
+      fail(error, spinner)
     }
   })
 
@@ -1116,30 +980,12 @@ const transferCommand = new Command('transfer')
   .option('-m, --memo <string>', 'Transfer memo', '')
   .option('--memo-file <path>', 'Read transfer memo from a file or stdin (use "-" for stdin)')
   .option('--account <name>', 'Sender account name (defaults to configured account)')
-  .option('--wait', 'Wait for transaction confirmation before exiting')
   .action(async (options) => {
     const config = await getConfig()
     const from = getAccountName(config, options)
 
     if (!from) {
-      console.error(chalk.red('Account not specified. Use --account, HIVE_ACCOUNT, or configure with "hive config"'))
-      process.exit(1)
-    }
-
-    if (!config?.activeKey) {
-      const { proceed } = await inquirer.prompt([
-        {
-          type: 'confirm',
-          name: 'proceed',
-          message: chalk.yellow('Active key not configured. This operation requires an active key. Continue anyway?'),
-          default: false
-        }
-      ])
-
-      if (!proceed) {
-        console.log(chalk.dim('Cancelled'))
-        process.exit(0)
-      }
+      fail(configError('Account not specified. Use --account, HIVE_ACCOUNT, or configure with "hive config"'))
     }
 
     // Resolve memo from --memo or --memo-file
@@ -1153,8 +999,7 @@ const transferCommand = new Command('transfer')
         memo = ''
       }
     } catch (error: any) {
-      console.error(chalk.red(`Error reading memo: ${error.message}`))
-      process.exit(1)
+      fail(usageError(`Error reading memo: ${error.message}`))
     }
 
     const operations: HiveOperation[] = [
@@ -1171,17 +1016,9 @@ const transferCommand = new Command('transfer')
 
     const spinner = createSpinner('Broadcasting transfer...').start()
     try {
-      const client = await getClient()
-      const result: any = await client.broadcast(operations, 'active')
-      if (options.wait) {
-        spinner.text = 'Waiting for confirmation...'
-        await client.waitForTransaction(result?.result?.tx_id ?? result?.tx_id)
-      }
-      spinner.succeed('Transfer broadcasted successfully')
-      console.log(JSON.stringify(result, null, 2))
+      await broadcastOperations(operations, 'active', { spinner, successMessage: 'Transfer broadcasted successfully', wait: getWaitOptions(options) })
     } catch (error: any) {
-      spinner.fail(error.message)
-      process.exit(1)
+      fail(error, spinner)
     }
   })
 
@@ -1192,14 +1029,12 @@ const voteCommand = new Command('vote')
   .option('--url <url>', 'Post URL (PeakD, HiveBlog, Ecency…) — replaces --author and --permlink')
   .requiredOption('-w, --weight <number>', 'Vote weight (1-100)', '100')
   .option('--account <name>', 'Voter account name (defaults to configured account)')
-  .option('--wait', 'Wait for transaction confirmation before exiting')
   .action(async (options) => {
     const config = await getConfig()
     const voter = getAccountName(config, options)
 
     if (!voter) {
-      console.error(chalk.red('Account not specified. Use --account, HIVE_ACCOUNT, or configure with "hive config"'))
-      process.exit(1)
+      fail(configError('Account not specified. Use --account, HIVE_ACCOUNT, or configure with "hive config"'))
     }
 
     let author = options.author
@@ -1207,15 +1042,13 @@ const voteCommand = new Command('vote')
     if (options.url) {
       const parsed = parseHiveUrl(options.url)
       if (!parsed) {
-        console.error(chalk.red('Could not parse --url'))
-        process.exit(1)
+        fail(usageError('Could not parse --url'))
       }
       author = parsed.author
       permlink = parsed.permlink
     }
     if (!author || !permlink) {
-      console.error(chalk.red('Provide either --url or both --author and --permlink'))
-      process.exit(1)
+      fail(usageError('Provide either --url or both --author and --permlink'))
     }
 
     const weight = parseInt(options.weight) * 100
@@ -1234,17 +1067,9 @@ const voteCommand = new Command('vote')
 
     const spinner = createSpinner('Broadcasting vote...').start()
     try {
-      const client = await getClient()
-      const result: any = await client.broadcast(operations, 'posting')
-      if (options.wait) {
-        spinner.text = 'Waiting for confirmation...'
-        await client.waitForTransaction(result?.result?.tx_id ?? result?.tx_id)
-      }
-      spinner.succeed('Vote broadcasted successfully')
-      console.log(JSON.stringify(result, null, 2))
+      await broadcastOperations(operations, 'posting', { spinner, successMessage: 'Vote broadcasted successfully', wait: getWaitOptions(options) })
     } catch (error: any) {
-      spinner.fail(error.message)
-      process.exit(1)
+      fail(error, spinner)
     }
   })
 
@@ -1256,14 +1081,12 @@ const customJsonCommand = new Command('custom-json')
   .option('--required-posting <accounts>', 'Required posting auths (comma-separated)', '')
   .option('--required-active <accounts>', 'Required active auths (comma-separated)', '')
   .option('--account <name>', 'Account name (defaults to configured account)')
-  .option('--wait', 'Wait for transaction confirmation before exiting')
   .action(async (options) => {
     const config = await getConfig()
     const account = getAccountName(config, options)
 
     if (!account) {
-      console.error(chalk.red('Account not specified. Use --account, HIVE_ACCOUNT, or configure with "hive config"'))
-      process.exit(1)
+      fail(configError('Account not specified. Use --account, HIVE_ACCOUNT, or configure with "hive config"'))
     }
 
     // Resolve JSON from --json or --json-file
@@ -1274,18 +1097,19 @@ const customJsonCommand = new Command('custom-json')
       } else if (options.json) {
         json = options.json
       } else {
-        console.error(chalk.red('Either --json or --json-file is required'))
-        process.exit(1)
+        fail(usageError('Either --json or --json-file is required'))
       }
     } catch (error: any) {
-      console.error(chalk.red(`Error reading JSON: ${error.message}`))
-      process.exit(1)
+      fail(usageError(`Error reading JSON: ${error.message}`))
     }
 
-    const requiredPostingAuths = options.requiredPosting ? options.requiredPosting.split(',').map((a: string) => a.trim()) : [account]
-
     const requiredAuths = options.requiredActive ? options.requiredActive.split(',').map((a: string) => a.trim()) : []
 
+    // Active auths replace the default posting auth; hived rejects a custom_json that needs both
+    const requiredPostingAuths = options.requiredPosting
+      ? options.requiredPosting.split(',').map((a: string) => a.trim())
+      : requiredAuths.length > 0 ? [] : [account]
+
     const operations: HiveOperation[] = [
       {
         type: 'custom_json',
@@ -1298,47 +1122,72 @@ const customJsonCommand = new Command('custom-json')
       }
     ]
 
+    try {
+      validateOperations(operations)
+    } catch (error: any) {
+      fail(error)
+    }
+
     const spinner = createSpinner('Broadcasting custom JSON...').start()
     try {
-      const client = await getClient()
-      const keyType = requiredAuths.length > 0 ? 'active' : 'posting'
-      const result: any = await client.broadcast(operations, keyType)
-      if (options.wait) {
-        spinner.text = 'Waiting for confirmation...'
-        await client.waitForTransaction(result?.result?.tx_id ?? result?.tx_id)
-      }
-      spinner.succeed('Custom JSON broadcasted successfully')
-      console.log(JSON.stringify(result, null, 2))
+      const { role: keyType } = resolveSigningRole(operations.map((op) => [op.type, op.value]))
+      await broadcastOperations(operations, keyType, { spinner, successMessage: 'Custom JSON broadcasted successfully', wait: getWaitOptions(options) })
     } catch (error: any) {
-      spinner.fail(error.message)
-      process.exit(1)
+      fail(error, spinner)
     }
   })
 
 const broadcastCommand = new Command('broadcast')
   .description('Broadcast raw operations')
-  .argument('<operations>', 'JSON array of operations')
-  .option('-k, --key-type <type>', 'Key type (posting or active)', 'posting')
-  .option('--wait', 'Wait for transaction confirmation before exiting')
+  .argument('<operations>', 'JSON array of operations, as {"type","value"} objects or ["name", {...}] tuples')
+  .option('-k, --key-type <type>', 'Key type (posting, active or owner); detected from the operations by default')
   .action(async (operations: string, options) => {
-    const parsedOperations: HiveOperation[] = JSON.parse(operations)
+    let parsedOperations: HiveOperation[]
+    try {
+      parsedOperations = validateOperations(JSON.parse(operations))
+    } catch (error: any) {
+      fail(error instanceof SyntaxError ? usageError(`Invalid operations JSON: ${error.message}`) : error)
+    }
 
     const spinner = createSpinner('Broadcasting operations...').start()
     try {
-      const client = await getClient()
-      const result: any = await client.broadcast(parsedOperations, options.keyType)
-      if (options.wait) {
-        spinner.text = 'Waiting for confirmation...'
-        await client.waitForTransaction(result?.result?.tx_id ?? result?.tx_id)
+      const plan = resolveSigningRole(parsedOperations.map((op) => [op.type, op.value]))
+      // A higher role may stand in for a lower one, as on chain
+      const roles = ['posting', 'active', 'owner']
+      if (options.keyType && !(roles.indexOf(options.keyType) >= roles.indexOf(plan.role))) {
+        throw usageError(
+          `These operations must be signed with the ${plan.role} key, not ${options.keyType}:\n`
+            + plan.operations.map((entry) => `  ${describeOperationAuthority(entry)}`).join('\n')
+        )
       }
-      spinner.succeed('Operations broadcasted successfully')
-      console.log(JSON.stringify(result, null, 2))
+      await broadcastOperations(parsedOperations, options.keyType ?? plan.role, { spinner, successMessage: 'Operations broadcasted successfully', wait: getWaitOptions(options) })
     } catch (error: any) {
-      spinner.fail(error.message)
-      process.exit(1)
+      fail(error, spinner)
     }
   })
 
+// Every command that broadcasts can wait for the transaction to be included or become irreversible
+;[
+  publishCommand,
+  replyCommand,
+  editCommand,
+  deleteCommentCommand,
+  followCommand,
+  unfollowCommand,
+  muteCommand,
+  unmuteCommand,
+  reblogCommand,
+  communitySubscribeCmd,
+  communityUnsubscribeCmd,
+  claimCommand,
+  delegateCommand,
+  profileUpdateCmd,
+  transferCommand,
+  voteCommand,
+  customJsonCommand,
+  broadcastCommand
+].forEach(addWaitOptions)
+
 export const broadcastCommands = [
   publishCommand,
   replyCommand,
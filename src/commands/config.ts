@@ -1,18 +1,168 @@
 import { Command } from 'commander'
 import chalk from 'chalk'
 import inquirer from 'inquirer'
-import { getConfig, saveConfig, clearConfig } from '../config.js'
-import type { Config } from '../types.js'
+import {
+  getConfig,
+  saveConfig,
+  clearConfig,
+  getActiveProfileName,
+  getStoredConfig,
+  hasPlaintextKeys,
+  isValidRpcTimeout,
+  listProfiles,
+  removeProfile,
+  setActiveProfile,
+  writeConfigFile
+} from '../config.js'
+import { configError, usageError } from '../errors.js'
+import { KEYSTORE_FIELDS, canGetKeystorePassphrase, keyField, resolveKey, unlockKeystore } from '../keystore.js'
+import {
+  deriveKeysFromMaster,
+  describeKeyVerification,
+  getAccountAuthorities,
+  isKeyInAuthority,
+  isWif,
+  publicKeyFromWif,
+  verifyKey,
+  type KeyRole
+} from '../keys.js'
+import { fail, printResult } from '../output.js'
+import { RC_CHECK_MODES } from '../rc.js'
+import type { Config, RcCheckMode } from '../types.js'
+import { createSpinner, getClient, isJsonMode } from '../utils.js'
+
+const CONFIG_KEYS = ['account', 'postingKey', 'activeKey', 'memoKey', 'ownerKey', 'node', 'rpcTimeout', 'rcCheck']
+
+function maskKey(key: string): string {
+  return key.length > 8 ? `${key.slice(0, 4)}…${key.slice(-4)}` : '****'
+}
+
+function redactConfig(config: Config): Record<string, unknown> {
+  const { keystore, ...rest } = config
+  const redacted: Record<string, unknown> = { ...rest }
+  for (const field of KEYSTORE_FIELDS) {
+    if (config[field]) {
+      redacted[field] = maskKey(config[field])
+    } else if (keystore?.fields.includes(field)) {
+      redacted[field] = '(encrypted)'
+    }
+  }
+  if (keystore) {
+    redacted.keystore = `${keystore.cipher}, ${keystore.kdf} (${keystore.fields.join(', ')})`
+  }
+  return redacted
+}
+
+/**
+ * Offer to move plaintext keys from config.json into the encrypted keystore.
+ * Runs silently when HIVE_KEYSTORE_PASSPHRASE is set; a declined prompt is
+ * remembered so the user is not asked again.
+ */
+export async function migratePlaintextConfig(): Promise<void> {
+  const stored = await getStoredConfig()
+  if (!stored || stored.plaintextKeys || !hasPlaintextKeys(stored)) {
+    return
+  }
+
+  if (!process.env.HIVE_KEYSTORE_PASSPHRASE) {
+    if (!process.stdin.isTTY || isJsonMode()) {
+      return
+    }
+
+    const { encrypt } = await inquirer.prompt([
+      {
+        type: 'confirm',
+        name: 'encrypt',
+        message: chalk.yellow('config.json stores private keys in plaintext. Encrypt them with a passphrase now?'),
+        default: true
+      }
+    ])
+
+    if (!encrypt) {
+      await writeConfigFile({ ...stored, plaintextKeys: true })
+      console.error(chalk.dim('Keeping plaintext keys. Run "hive config lock" to encrypt them later.'))
+      return
+    }
+  }
+
+  await saveConfig(stored)
+  console.error(chalk.green('✔ Private keys moved to the encrypted keystore'))
+}
+
+async function reportKeyVerification(account: string, role: KeyRole, wif: string): Promise<void> {
+  let publicKey: string
+  try {
+    publicKey = publicKeyFromWif(wif)
+  } catch {
+    console.log(chalk.red('✗ Not a valid private key (WIF)'))
+    return
+  }
+
+  const spinner = createSpinner('Verifying key against on-chain authorities...').start()
+  try {
+    const client = await getClient({ requireConfig: false })
+    const authorities = await getAccountAuthorities(client, account)
+    spinner.stop()
+    console.log(describeKeyVerification(verifyKey(authorities, role, publicKey), account))
+  } catch (error: any) {
+    spinner.fail(`Could not verify key: ${error.message}`)
+  }
+}
+
+async function promptConfig(existingConfig: Config | null): Promise<Config> {
+  const encrypted = Boolean(existingConfig?.keystore)
+
+  const answers = await inquirer.prompt([
+    {
+      type: 'input',
+      name: 'account',
+      message: 'Hive account name:',
+      default: existingConfig?.account || '',
+      validate: (input: string) => input.length > 0 || 'Account name is required'
+    },
+    {
+      type: 'input',
+      name: 'postingKey',
+      message: encrypted
+        ? 'Posting key (leave empty to keep the encrypted key):'
+        : 'Posting key (optional but recommended):',
+      default: existingConfig?.postingKey || ''
+    },
+    {
+      type: 'input',
+      name: 'activeKey',
+      message: encrypted
+        ? 'Active key (leave empty to keep the encrypted key):'
+        : 'Active key (optional, required for transfers):',
+      default: existingConfig?.activeKey || ''
+    },
+    {
+      type: 'input',
+      name: 'node',
+      message: 'Hive node URLs, comma-separated (leave empty for the built-in list with failover):',
+      default: existingConfig?.node || ''
+    }
+  ])
+
+  return {
+    account: answers.account,
+    postingKey: answers.postingKey || undefined,
+    activeKey: answers.activeKey || undefined,
+    node: answers.node.trim() || undefined,
+    keystore: existingConfig?.keystore,
+    plaintextKeys: existingConfig?.plaintextKeys
+  }
+}
 
 export const configCommand = new Command('config')
   .description('Manage Hive CLI configuration')
   .option('-s, --show', 'Show current configuration')
-  .option('--clear', 'Clear all configuration')
+  .option('--clear', 'Clear the configuration of the active profile')
   .action(async (options) => {
     if (options.show) {
       const config = await getConfig()
       if (config) {
-        console.log(JSON.stringify(config, null, 2))
+        printResult(redactConfig(config))
       } else {
         console.log(chalk.yellow('No configuration set'))
       }
@@ -20,50 +170,15 @@ export const configCommand = new Command('config')
     }
 
     if (options.clear) {
-      await clearConfig()
-      console.log(chalk.green('Configuration cleared'))
+      const profile = await getActiveProfileName()
+      await clearConfig(profile)
+      console.log(chalk.green(`Configuration cleared (profile: ${profile})`))
       return
     }
 
-    const existingConfig = await getConfig()
-
-    const answers = await inquirer.prompt([
-      {
-        type: 'input',
-        name: 'account',
-        message: 'Hive account name:',
-        default: existingConfig?.account || '',
-        validate: (input: string) => input.length > 0 || 'Account name is required'
-      },
-      {
-        type: 'input',
-        name: 'postingKey',
-        message: 'Posting key (optional but recommended):',
-        default: existingConfig?.postingKey || ''
-      },
-      {
-        type: 'input',
-        name: 'activeKey',
-        message: 'Active key (optional, required for transfers):',
-        default: existingConfig?.activeKey || ''
-      },
-      {
-        type: 'input',
-        name: 'node',
-        message: 'Hive node URL:',
-        default: existingConfig?.node || 'https://api.hive.blog'
-      }
-    ])
-
-    const config: Config = {
-      account: answers.account,
-      postingKey: answers.postingKey || undefined,
-      activeKey: answers.activeKey || undefined,
-      node: answers.node
-    }
-
+    const config = await promptConfig(await getConfig())
     await saveConfig(config)
-    console.log(chalk.green('✔ Configuration saved'))
+    console.log(chalk.green(`✔ Configuration saved (profile: ${await getActiveProfileName()})`))
     console.log(chalk.dim(`Config location: ~/.hive-tx-cli/config.json`))
   })
 
@@ -71,17 +186,31 @@ configCommand
   .command('set <key> <value>')
   .description('Set a specific configuration value')
   .action(async (key: string, value: string) => {
-    const config = (await getConfig()) || { account: '' }
+    const config = (await getStoredConfig()) || { account: '' }
 
-    if (!['account', 'postingKey', 'activeKey', 'node'].includes(key)) {
-      console.error(chalk.red(`Invalid key: ${key}`))
-      console.log(chalk.dim('Valid keys: account, postingKey, activeKey, node'))
-      process.exit(1)
+    if (!CONFIG_KEYS.includes(key)) {
+      fail(usageError(`Invalid key: ${key}. Valid keys: ${CONFIG_KEYS.join(', ')}`))
     }
 
-    ;(config as any)[key] = value
-    await saveConfig(config)
+    if (key === 'rpcTimeout' && !isValidRpcTimeout(value)) {
+      fail(usageError('rpcTimeout must be a number of seconds'))
+    }
+
+    if (key === 'rcCheck' && !RC_CHECK_MODES.includes(value as RcCheckMode)) {
+      fail(usageError(`rcCheck must be one of: ${RC_CHECK_MODES.join(', ')}`))
+    }
+
+    ;(config as any)[key] = key === 'rpcTimeout' ? Number(value) : value
+    try {
+      await saveConfig(config)
+    } catch (error: any) {
+      fail(configError(error.message))
+    }
     console.log(chalk.green(`✔ Set ${key}`))
+
+    if ((KEYSTORE_FIELDS as string[]).includes(key) && config.account) {
+      await reportKeyVerification(config.account, key.replace(/Key$/, '') as KeyRole, value)
+    }
   })
 
 configCommand
@@ -91,19 +220,234 @@ configCommand
     const config = await getConfig()
 
     if (!config) {
-      console.log(chalk.yellow('No configuration found'))
-      process.exit(1)
+      fail(configError('No configuration found'))
     }
 
-    if (!['account', 'postingKey', 'activeKey', 'node'].includes(key)) {
-      console.error(chalk.red(`Invalid key: ${key}`))
-      process.exit(1)
+    if (!CONFIG_KEYS.includes(key)) {
+      fail(usageError(`Invalid key: ${key}`))
     }
 
-    const value = (config as any)[key]
-    if (value) {
+    let value: string | undefined
+    try {
+      value = (KEYSTORE_FIELDS as string[]).includes(key)
+        ? await resolveKey(config, key.replace(/Key$/, '') as KeyRole)
+        : (config as any)[key]
+    } catch (error: any) {
+      fail(configError(error.message))
+    }
+    if (isJsonMode()) {
+      printResult({ key, value: value ?? null })
+    } else if (value) {
       console.log(value)
     } else {
       console.log(chalk.yellow('Not set'))
     }
   })
+
+configCommand
+  .command('lock')
+  .description('Encrypt the private keys in config.json with a passphrase')
+  .action(async () => {
+    const stored = await getStoredConfig()
+
+    if (!stored || !hasPlaintextKeys(stored)) {
+      console.log(chalk.yellow(stored?.keystore ? 'Keys are already encrypted' : 'No private keys stored in config.json'))
+      return
+    }
+
+    if (!canGetKeystorePassphrase()) {
+      fail(configError('No passphrase to encrypt the keys with. Set HIVE_KEYSTORE_PASSPHRASE or run "hive config lock" in a terminal.'))
+    }
+
+    try {
+      await saveConfig({ ...stored, plaintextKeys: undefined })
+    } catch (error: any) {
+      fail(configError(error.message))
+    }
+    console.log(chalk.green('✔ Keys encrypted'))
+  })
+
+configCommand
+  .command('unlock')
+  .description('Decrypt the keystore and store the private keys in plaintext again')
+  .action(async () => {
+    const stored = await getStoredConfig()
+
+    if (!stored?.keystore) {
+      console.log(chalk.yellow('No encrypted keystore found'))
+      return
+    }
+
+    const { keystore, ...rest } = stored
+    try {
+      const secrets = await unlockKeystore(keystore)
+      await writeConfigFile({ ...rest, ...secrets, plaintextKeys: true })
+    } catch (error: any) {
+      fail(configError(error.message))
+    }
+    console.log(chalk.green('✔ Keys decrypted'))
+    console.log(chalk.yellow('Private keys are now stored in plaintext. Run "hive config lock" to encrypt them again.'))
+  })
+
+configCommand
+  .command('add <profile>')
+  .description('Add a named account profile')
+  .option('--use', 'Make the new profile the active one')
+  .action(async (profile: string, options) => {
+    const { profiles } = await listProfiles()
+    if (profiles[profile]) {
+      fail(usageError(`Profile "${profile}" already exists. Edit it with "hive --profile ${profile} config"`))
+    }
+
+    const config = await promptConfig(null)
+
+    try {
+      await saveConfig(config, profile)
+      if (options.use) {
+        await setActiveProfile(profile)
+      }
+    } catch (error: any) {
+      fail(configError(error.message))
+    }
+    console.log(chalk.green(`✔ Profile "${profile}" added`))
+  })
+
+configCommand
+  .command('use <profile>')
+  .description('Switch the active profile')
+  .action(async (profile: string) => {
+    try {
+      await setActiveProfile(profile)
+    } catch (error: any) {
+      fail(configError(error.message))
+    }
+    console.log(chalk.green(`✔ Now using profile "${profile}"`))
+  })
+
+configCommand
+  .command('list')
+  .description('List account profiles')
+  .action(async () => {
+    const { activeProfile, profiles } = await listProfiles()
+    const names = Object.keys(profiles)
+
+    if (names.length === 0) {
+      console.log(chalk.yellow('No profiles configured'))
+      return
+    }
+
+    const width = Math.max(...names.map((name) => name.length))
+    for (const name of names) {
+      const profile = profiles[name]!
+      const marker = name === activeProfile ? chalk.green('*') : ' '
+      const keys = KEYSTORE_FIELDS
+        .filter((field) => profile[field] || profile.keystore?.fields.includes(field))
+        .map((field) => field.replace('Key', ''))
+      const details = [
+        keys.length > 0 ? keys.join(', ') : 'no keys',
+        profile.keystore ? 'encrypted' : undefined
+      ].filter(Boolean).join(', ')
+      console.log(`${marker} ${name.padEnd(width)}  @${profile.account || '?'}  ${chalk.dim(`(${details})`)}`)
+    }
+  })
+
+configCommand
+  .command('remove <profile>')
+  .description('Remove an account profile')
+  .action(async (profile: string) => {
+    try {
+      await removeProfile(profile)
+    } catch (error: any) {
+      fail(configError(error.message))
+    }
+    console.log(chalk.green(`✔ Profile "${profile}" removed`))
+  })
+
+configCommand
+  .command('import-master')
+  .description('Derive keys from the account master password and store the selected roles')
+  .option('--account <name>', 'Account name (defaults to the configured account)')
+  .action(async (options) => {
+    const existing = await getStoredConfig()
+
+    const { account, password } = await inquirer.prompt([
+      {
+        type: 'input',
+        name: 'account',
+        message: 'Hive account name:',
+        default: options.account || existing?.account || '',
+        validate: (input: string) => input.length > 0 || 'Account name is required'
+      },
+      {
+        type: 'password',
+        name: 'password',
+        mask: '*',
+        message: 'Master password:',
+        validate: (input: string) => input.length > 0 || 'Master password is required'
+      }
+    ])
+
+    if (isWif(password)) {
+      fail(usageError('That looks like a private key, not a master password. Use "hive config set" to store single keys.'))
+    }
+
+    const derived = deriveKeysFromMaster(account, password)
+
+    const spinner = createSpinner(`Fetching authorities for @${account}...`).start()
+    let matching: KeyRole[]
+    try {
+      const client = await getClient({ requireConfig: false })
+      const authorities = await getAccountAuthorities(client, account)
+      spinner.stop()
+      matching = derived
+        .filter(({ role, publicKey }) => isKeyInAuthority(authorities, role, publicKey))
+        .map(({ role }) => role)
+    } catch (error: any) {
+      fail(error, spinner)
+    }
+
+    for (const { role, publicKey } of derived) {
+      const status = matching.includes(role)
+        ? chalk.green('✔ matches on-chain authority')
+        : chalk.red('✗ not in on-chain authority')
+      console.log(`  ${role.padEnd(8)} ${chalk.dim(publicKey)}  ${status}`)
+    }
+
+    if (matching.length === 0) {
+      fail(usageError(`The master password does not match any authority of @${account}`))
+    }
+
+    const { roles } = await inquirer.prompt([
+      {
+        type: 'checkbox',
+        name: 'roles',
+        message: 'Keys to store:',
+        choices: matching.map((role) => ({
+          name: role === 'owner' ? 'owner (not recommended, only needed for account recovery and key changes)' : role,
+          value: role,
+          checked: role === 'posting' || role === 'active'
+        }))
+      }
+    ])
+
+    if (roles.length === 0) {
+      console.log(chalk.dim('No keys selected'))
+      return
+    }
+
+    const config: Config = existing && existing.account === account
+      ? { ...existing }
+      : { account, node: existing?.node, plaintextKeys: existing?.plaintextKeys }
+    for (const { role, privateKey } of derived) {
+      if ((roles as KeyRole[]).includes(role)) {
+        config[keyField(role)] = privateKey
+      }
+    }
+
+    try {
+      await saveConfig(config)
+    } catch (error: any) {
+      fail(configError(error.message))
+    }
+    console.log(chalk.green(`✔ Stored ${roles.join(', ')} keys for @${account}`))
+  })
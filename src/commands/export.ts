@@ -0,0 +1,207 @@
+import { Command } from 'commander'
+import chalk from 'chalk'
+import fs from 'fs-extra'
+import { parseHistoryBound, walkHistory, type HistoryBound, type HistoryEntry } from '../account-history.js'
+import { usageError } from '../errors.js'
+import { fail, printResult } from '../output.js'
+import { createSpinner, getClient, isJsonMode, parseAssetExact } from '../utils.js'
+
+export interface ExportRow {
+  timestamp: string
+  block: number
+  trx_id: string
+  type: string
+  direction: 'in' | 'out'
+  counterparty: string
+  amount: string
+  asset: string
+  memo: string
+}
+
+interface Checkpoint {
+  account: string
+  format: 'csv' | 'jsonl'
+  from?: HistoryBound
+  to?: HistoryBound
+  /** Every entry from this history index upwards has been written. */
+  before: number
+  rows: number
+  /** Size of the output file when the checkpoint was taken. */
+  bytes?: number
+}
+
+const COLUMNS: (keyof ExportRow)[] = ['timestamp', 'block', 'trx_id', 'type', 'direction', 'counterparty', 'amount', 'asset', 'memo']
+
+// Entries between checkpoint writes
+const FLUSH_EVERY = 1000
+
+type Leg = [direction: 'in' | 'out', asset: any, counterparty?: string]
+
+/**
+ * Balance movements an operation causes for the account, as (direction,
+ * asset, counterparty) legs. Operations that only schedule a movement
+ * (power down, savings withdrawal, conversion requests) are left out; their
+ * fill operations carry the actual amounts. Reward claims are internal and
+ * not listed, since the rewards are already exported when earned.
+ */
+const LEGS: Record<string, (body: Record<string, any>, account: string) => Leg[]> = {
+  transfer: (b, a) => b.from === a ? [['out', b.amount, b.to]] : [['in', b.amount, b.from]],
+  fill_recurrent_transfer: (b, a) => b.from === a ? [['out', b.amount, b.to]] : [['in', b.amount, b.from]],
+  transfer_to_vesting: (b, a) => b.from === a ? [['out', b.amount, b.to && b.to !== a ? b.to : '']] : [],
+  transfer_to_vesting_completed: (b, a) => b.to_account === a
+    ? [['in', b.vesting_shares_received, b.from_account !== a ? b.from_account : '']]
+    : [],
+  fill_vesting_withdraw: (b, a) => [
+    ...(b.from_account === a ? [['out', b.withdrawn, b.to_account !== a ? b.to_account : ''] as Leg] : []),
+    ...(b.to_account === a ? [['in', b.deposited, b.from_account !== a ? b.from_account : ''] as Leg] : [])
+  ],
+  transfer_to_savings: (b, a) => b.from === a ? [['out', b.amount, b.to !== a ? b.to : '']] : [['in', b.amount, b.from]],
+  fill_transfer_from_savings: (b, a) => b.to === a ? [['in', b.amount, b.from !== a ? b.from : '']] : [['out', b.amount, b.to]],
+  interest: (b) => [['in', b.interest]],
+  author_reward: (b) => [['in', b.hbd_payout], ['in', b.hive_payout], ['in', b.vesting_payout]],
+  curation_reward: (b) => [['in', b.reward, b.comment_author ?? b.author]],
+  comment_benefactor_reward: (b) => [['in', b.hbd_payout, b.author], ['in', b.hive_payout, b.author], ['in', b.vesting_payout, b.author]],
+  producer_reward: (b) => [['in', b.vesting_shares]],
+  proposal_pay: (b) => [['in', b.payment]],
+  fill_convert_request: (b) => [['out', b.amount_in], ['in', b.amount_out]],
+  fill_collateralized_convert_request: (b) => [['out', b.amount_in], ['in', b.amount_out]],
+  fill_order: (b, a) => b.current_owner === a
+    ? [['out', b.current_pays, b.open_owner], ['in', b.open_pays, b.open_owner]]
+    : [['out', b.open_pays, b.current_owner], ['in', b.current_pays, b.current_owner]],
+  // The amount is the new total delegated to the counterparty, not a change
+  delegate_vesting_shares: (b, a) => b.delegator === a ? [['out', b.vesting_shares, b.delegatee]] : [['in', b.vesting_shares, b.delegator]],
+  return_vesting_delegation: (b) => [['in', b.vesting_shares]]
+}
+
+export function toRows(entry: HistoryEntry, account: string): ExportRow[] {
+  const legs = LEGS[entry.type]?.(entry.value, account) ?? []
+  return legs
+    .map(([direction, asset, counterparty = '']) => ({ direction, counterparty, ...parseAssetExact(asset) }))
+    // Rewards list every asset, mostly zero; a zero delegation is a removal and stays
+    .filter(({ amount }) => !/^-?0(\.0+)?$/.test(amount) || entry.type === 'delegate_vesting_shares')
+    .map(({ direction, counterparty, amount, symbol }) => ({
+      timestamp: entry.timestamp,
+      block: entry.block,
+      trx_id: entry.trx_id,
+      type: entry.type,
+      direction,
+      counterparty,
+      amount,
+      asset: symbol,
+      memo: typeof entry.value.memo === 'string' ? entry.value.memo : ''
+    }))
+}
+
+function csvField(value: unknown): string {
+  const text = String(value)
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text
+}
+
+export function formatRow(row: ExportRow, format: 'csv' | 'jsonl'): string {
+  return format === 'csv' ? COLUMNS.map((column) => csvField(row[column])).join(',') : JSON.stringify(row)
+}
+
+export const exportCommand = new Command('export')
+  .description('Export balance movements (transfers, rewards, interest, conversions, fills, delegations) from account history')
+  .argument('<account>', 'Account name')
+  .option('-f, --format <format>', 'csv or jsonl', 'csv')
+  .option('--from <block|date>', 'Oldest block number or date to include')
+  .option('--to <block|date>', 'Newest block number or date to include')
+  .option('-o, --output <file>', 'Write to this file instead of stdout')
+  .option('--checkpoint <file>', 'Progress file for --resume (default: <output>.checkpoint.json)')
+  .option('--resume', 'Continue an interrupted export from its checkpoint')
+  .action(async (account: string, options) => {
+    if (options.format !== 'csv' && options.format !== 'jsonl') {
+      fail(usageError('--format must be csv or jsonl'))
+    }
+    if (!options.output && (options.resume || isJsonMode())) {
+      fail(usageError(options.resume ? '--resume needs --output' : 'Use --output with JSON output, which keeps stdout for the result'))
+    }
+    const checkpointPath: string | undefined = options.checkpoint ?? (options.output ? `${options.output}.checkpoint.json` : undefined)
+
+    let checkpoint: Checkpoint | null = null
+    if (options.resume) {
+      if (!(await fs.pathExists(checkpointPath!))) {
+        fail(usageError(`No checkpoint at ${checkpointPath}; nothing to resume`))
+      }
+      checkpoint = await fs.readJson(checkpointPath!) as Checkpoint
+      if (checkpoint.account !== account) {
+        fail(usageError(`${checkpointPath} belongs to an export of @${checkpoint.account}`))
+      }
+      // Drop rows written after the checkpoint; they are exported again
+      if (checkpoint.bytes !== undefined) {
+        if (!(await fs.pathExists(options.output))) {
+          fail(usageError(`${options.output} is missing; start the export again without --resume`))
+        }
+        await fs.truncate(options.output, checkpoint.bytes)
+      }
+    }
+
+    const format: 'csv' | 'jsonl' = checkpoint?.format ?? options.format
+    // A resumed export keeps the range it was started with
+    const from = checkpoint ? checkpoint.from : options.from ? parseHistoryBound(options.from, 'from') : undefined
+    const to = checkpoint ? checkpoint.to : options.to ? parseHistoryBound(options.to, 'to') : undefined
+
+    const write = async (lines: string[]) => {
+      if (lines.length === 0) return
+      const text = lines.join('\n') + '\n'
+      if (options.output) {
+        await fs.appendFile(options.output, text)
+      } else {
+        process.stdout.write(text)
+      }
+    }
+
+    if (!checkpoint && options.output) {
+      await fs.writeFile(options.output, format === 'csv' ? `${COLUMNS.join(',')}\n` : '')
+    } else if (!options.output && format === 'csv') {
+      await write([COLUMNS.join(',')])
+    }
+
+    const spinner = createSpinner(`Exporting history of @${account}...`).start()
+    let rows = checkpoint?.rows ?? 0
+    let pending: string[] = []
+    let scanned = 0
+    let lastIndex: number | undefined = checkpoint?.before
+
+    const flush = async () => {
+      await write(pending)
+      pending = []
+      if (checkpointPath && lastIndex !== undefined) {
+        const bytes = options.output ? (await fs.stat(options.output)).size : undefined
+        // Write and rename so a crash never leaves a half-written checkpoint
+        await fs.writeJson(`${checkpointPath}.tmp`, { account, format, from, to, before: lastIndex, rows, bytes } satisfies Checkpoint)
+        await fs.rename(`${checkpointPath}.tmp`, checkpointPath)
+      }
+    }
+
+    try {
+      const client = await getClient({ requireConfig: false })
+      for await (const entry of walkHistory(client, { account, types: Object.keys(LEGS), from, to, before: checkpoint?.before })) {
+        for (const row of toRows(entry, account)) {
+          pending.push(formatRow(row, format))
+          rows += 1
+        }
+        lastIndex = entry.index
+        scanned += 1
+        if (scanned % FLUSH_EVERY === 0) {
+          await flush()
+          spinner.text = `Exporting history of @${account}... ${rows} rows, at ${entry.timestamp.slice(0, 10)}`
+        }
+      }
+      await write(pending)
+      if (checkpointPath) {
+        await fs.remove(checkpointPath)
+      }
+      spinner.succeed(`Exported ${rows} rows${options.output ? ` to ${options.output}` : ''}`)
+      if (isJsonMode()) {
+        printResult({ output: options.output, format, rows })
+      }
+    } catch (error: any) {
+      await flush().catch(() => {})
+      if (checkpointPath) {
+        console.error(chalk.dim(`Progress saved to ${checkpointPath}; continue with --resume`))
+      }
+      fail(error, spinner)
+    }
+  })
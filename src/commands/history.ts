@@ -0,0 +1,60 @@
+import { Command } from 'commander'
+import chalk from 'chalk'
+import { parseHistoryBound, walkHistory, type HistoryEntry } from '../account-history.js'
+import { usageError } from '../errors.js'
+import { formatOperation } from '../operation-format.js'
+import { fail, printResult } from '../output.js'
+import { createSpinner, getClient, isJsonMode } from '../utils.js'
+
+function printEntry(entry: HistoryEntry): void {
+  const time = entry.timestamp.replace('T', ' ')
+  const type = entry.virtual_op ? chalk.dim(entry.type) : chalk.bold(entry.type)
+  console.log(`${chalk.dim(time)} ${chalk.dim(`#${entry.block}`)} ${type} ${formatOperation([entry.type, entry.value])}`)
+}
+
+export const historyCommand = new Command('history')
+  .description('Show account history, newest first, optionally filtered by operation type and range')
+  .argument('<account>', 'Account name')
+  .option('-t, --type <types>', 'Operation types to show (comma-separated), e.g. transfer,vote or author_reward')
+  .option('--from <block|date>', 'Oldest block number or date (2025-01-31 or 2025-01-31T12:00:00 UTC) to include')
+  .option('--to <block|date>', 'Newest block number or date to include')
+  .option('-l, --limit <number>', 'Maximum number of entries', '50')
+  .action(async (account: string, options) => {
+    const limit = Number(options.limit)
+    if (!Number.isInteger(limit) || limit < 1) {
+      fail(usageError('--limit must be a positive number'))
+    }
+
+    const spinner = createSpinner(`Fetching history of @${account}...`).start()
+    try {
+      const types = options.type ? options.type.split(',').map((type: string) => type.trim()).filter(Boolean) : []
+      const client = await getClient({ requireConfig: false })
+      const entries: HistoryEntry[] = []
+      for await (const entry of walkHistory(client, {
+        account,
+        types,
+        from: options.from ? parseHistoryBound(options.from, 'from') : undefined,
+        to: options.to ? parseHistoryBound(options.to, 'to') : undefined,
+        // With a type filter the node counts matching entries, so ask for no more than needed
+        pageSize: types.length > 0 ? limit : undefined
+      })) {
+        entries.push(entry)
+        spinner.text = `Fetching history of @${account}... ${entries.length}`
+        if (entries.length >= limit) break
+      }
+      spinner.stop()
+
+      if (isJsonMode()) {
+        printResult(entries)
+        return
+      }
+
+      if (entries.length === 0) {
+        console.log(chalk.yellow('No matching history entries.'))
+        return
+      }
+      entries.forEach(printEntry)
+    } catch (error: any) {
+      fail(error, spinner)
+    }
+  })
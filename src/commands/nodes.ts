@@ -0,0 +1,166 @@
+import { Command } from 'commander'
+import chalk from 'chalk'
+import { getConfig, getStoredConfig, saveConfig } from '../config.js'
+import { CliError, NodeError, configError, usageError } from '../errors.js'
+import { DEFAULT_NODES, DEFAULT_TIMEOUT_SECONDS, parseNodeList, rpcRequest } from '../node-pool.js'
+import { fail, printResult } from '../output.js'
+import { createSpinner, isJsonMode } from '../utils.js'
+
+// One cheap call per API the CLI depends on
+const API_PROBES: Record<string, [string, unknown]> = {
+  bridge: ['bridge.get_trending_topics', { limit: 1 }],
+  rc_api: ['rc_api.get_resource_params', {}],
+  account_history_api: ['account_history_api.get_ops_in_block', { block_num: 1, only_virtual: true }],
+  block_api: ['block_api.get_block_header', { block_num: 1 }]
+}
+
+interface NodeProbe {
+  url: string
+  ok: boolean
+  latencyMs?: number
+  headBlock?: number
+  lag?: number
+  version?: string
+  apis: Record<string, boolean>
+  error?: string
+}
+
+function isMissingMethod(error: any): boolean {
+  return error?.code === -32601 || /could not find (api|method)|method not found|api_itr/i.test(String(error?.message ?? ''))
+}
+
+async function probeNode(url: string, timeoutMs: number): Promise<NodeProbe> {
+  const apis: Record<string, boolean> = {}
+  try {
+    const started = Date.now()
+    const props = await rpcRequest(url, 'database_api.get_dynamic_global_properties', {}, timeoutMs)
+    const latencyMs = Date.now() - started
+    if (props?.error) {
+      throw new Error(props.error.message ?? 'RPC error')
+    }
+
+    const [version, ...probes] = await Promise.all([
+      rpcRequest(url, 'database_api.get_version', {}, timeoutMs).catch(() => null),
+      ...Object.values(API_PROBES).map(([method, params]) =>
+        rpcRequest(url, method, params, timeoutMs).catch(() => null))
+    ])
+    Object.keys(API_PROBES).forEach((api, index) => {
+      const response = probes[index]
+      // Any answer other than "no such method" means the API is served
+      apis[api] = Boolean(response) && !(response.error && isMissingMethod(response.error))
+    })
+
+    return {
+      url,
+      ok: true,
+      latencyMs,
+      headBlock: props.result?.head_block_number,
+      version: version?.result?.blockchain_version,
+      apis
+    }
+  } catch (error: any) {
+    return { url, ok: false, apis, error: error instanceof NodeError ? error.reason : error.message }
+  }
+}
+
+function rankProbes(probes: NodeProbe[]): NodeProbe[] {
+  const best = Math.max(0, ...probes.map((probe) => probe.headBlock ?? 0))
+  for (const probe of probes) {
+    if (probe.headBlock !== undefined) {
+      probe.lag = best - probe.headBlock
+    }
+  }
+
+  const missing = (probe: NodeProbe) => Object.values(probe.apis).filter((supported) => !supported).length
+  // Working nodes first, then full API coverage, then nodes in sync, then latency
+  return [...probes].sort((a, b) =>
+    Number(b.ok) - Number(a.ok)
+    || missing(a) - missing(b)
+    || Number((a.lag ?? 0) > 3) - Number((b.lag ?? 0) > 3)
+    || (a.latencyMs ?? Infinity) - (b.latencyMs ?? Infinity))
+}
+
+function printProbes(probes: NodeProbe[], configured: string[]): void {
+  const width = Math.max(...probes.map((probe) => probe.url.length))
+  const apiNames = Object.keys(API_PROBES)
+  console.log(chalk.dim(`    ${'Node'.padEnd(width)}  ${'Latency'.padStart(7)}  ${'Lag'.padStart(4)}  ${'Version'.padEnd(8)}  APIs`))
+
+  probes.forEach((probe, index) => {
+    const marker = configured.includes(probe.url) ? chalk.green('*') : ' '
+    const rank = `${index + 1}`.padStart(2)
+    if (!probe.ok) {
+      console.log(`${rank}${marker} ${probe.url.padEnd(width)}  ${chalk.red(`✗ ${probe.error}`)}`)
+      return
+    }
+    const latency = `${probe.latencyMs}ms`.padStart(7)
+    const lag = `${probe.lag ?? '?'}`.padStart(4)
+    const apis = apiNames.map((api) => probe.apis[api] ? chalk.green(api) : chalk.red(`${api}✗`)).join(' ')
+    console.log(`${rank}${marker} ${probe.url.padEnd(width)}  ${latency}  ${(probe.lag ?? 0) > 3 ? chalk.yellow(lag) : lag}  ${(probe.version ?? '?').padEnd(8)}  ${apis}`)
+  })
+
+  if (configured.length > 0) {
+    console.log(chalk.dim('\n* configured node'))
+  }
+}
+
+const nodesProbeCmd = new Command('probe')
+  .description('Benchmark API nodes: latency, head block lag, version and API support')
+  .argument('[urls...]', 'Additional node URLs to probe')
+  .option('--timeout <seconds>', 'Timeout per request', String(DEFAULT_TIMEOUT_SECONDS))
+  .action(async (urls: string[], options) => {
+    const config = await getConfig()
+    const configured = parseNodeList(config?.node)
+    const candidates = [...new Set([...configured, ...urls.flatMap((url) => parseNodeList(url)), ...DEFAULT_NODES])]
+    const timeoutMs = (Number(options.timeout) || DEFAULT_TIMEOUT_SECONDS) * 1000
+
+    const spinner = createSpinner(`Probing ${candidates.length} nodes...`).start()
+    const probes = rankProbes(await Promise.all(candidates.map((url) => probeNode(url, timeoutMs))))
+    spinner.stop()
+
+    if (isJsonMode()) {
+      printResult(probes)
+      return
+    }
+
+    printProbes(probes, configured)
+    const winner = probes[0]
+    if (winner?.ok) {
+      console.log(chalk.dim(`\nUse the fastest node with "hive nodes use ${winner.url}"`))
+    }
+  })
+
+const nodesUseCmd = new Command('use')
+  .description('Save the node(s) used by all commands; several URLs are tried in order with failover')
+  .argument('<urls...>', 'Node URL(s)')
+  .option('--no-check', 'Save without checking that the node responds')
+  .action(async (urls: string[], options) => {
+    const nodes = [...new Set(urls.flatMap((url) => parseNodeList(url)))]
+    const invalid = nodes.filter((url) => !/^https?:\/\//.test(url))
+    if (invalid.length > 0) {
+      fail(usageError(`Not a node URL: ${invalid.join(', ')}`))
+    }
+
+    if (options.check) {
+      const spinner = createSpinner('Checking node...').start()
+      const probes = await Promise.all(nodes.map((url) => probeNode(url, DEFAULT_TIMEOUT_SECONDS * 1000)))
+      const failed = probes.filter((probe) => !probe.ok)
+      if (failed.length > 0) {
+        fail(new CliError('RPC', `${failed.map((probe) => `${probe.url}: ${probe.error}`).join('\n')}\nUse --no-check to save it anyway`), spinner)
+      }
+      spinner.stop()
+    }
+
+    const config = (await getStoredConfig()) || { account: '' }
+    try {
+      await saveConfig({ ...config, node: nodes.join(',') })
+    } catch (error: any) {
+      fail(configError(error.message))
+    }
+    console.log(chalk.green(`✔ Using ${nodes.join(', ')}`))
+  })
+
+export const nodesCommand = new Command('nodes')
+  .description('Benchmark and choose Hive API nodes')
+
+nodesCommand.addCommand(nodesProbeCmd, { isDefault: true })
+nodesCommand.addCommand(nodesUseCmd)
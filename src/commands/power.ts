@@ -0,0 +1,308 @@
+import { Command } from 'commander'
+import chalk from 'chalk'
+import { getConfig } from '../config.js'
+import { usageError } from '../errors.js'
+import type { HiveClient } from '../hive-client.js'
+import { validateOperations } from '../operation-schema.js'
+import { fail, printResult, unwrapResponse } from '../output.js'
+import type { HiveOperation } from '../types.js'
+import {
+  addWaitOptions,
+  broadcastOperations,
+  createSpinner,
+  getAccount,
+  getClient,
+  getProps,
+  getWaitOptions,
+  hpToVests,
+  isJsonMode,
+  parseAssetAmount,
+  requireAccountName,
+  vestsToHp
+} from '../utils.js'
+
+// Power downs pay out in weekly installments
+const WITHDRAW_INTERVAL_SECONDS = 7 * 24 * 3600
+
+// HIVE_MAX_WITHDRAW_ROUTES
+const MAX_WITHDRAW_ROUTES = 10
+
+// next_vesting_withdrawal when no power down is running
+const NO_WITHDRAWAL = '1969-12-31T23:59:59'
+
+async function getWithdrawRoutes(client: HiveClient, account: string): Promise<any[]> {
+  const result: any = unwrapResponse(await client.call('database_api', 'find_withdraw_vesting_routes', {
+    account,
+    order: 'by_withdraw_route'
+  }))
+  return result?.routes ?? []
+}
+
+/** "10", "10 HIVE" or "10.000 HIVE" as "10.000 HIVE". */
+function parseHiveAmount(amount: string): string {
+  const match = /^(\d+(?:\.\d{1,3})?)(?:\s+HIVE)?$/i.exec(amount.trim())
+  if (!match || !(Number(match[1]) > 0)) {
+    fail(usageError(`Amount must be a positive HIVE amount, e.g. "10.000 HIVE", got "${amount}"`))
+  }
+  return `${Number(match[1]).toFixed(3)} HIVE`
+}
+
+/** "100 HP" or "100" as a number of HP. */
+function parseHpAmount(amount: string): number {
+  const match = /^(\d+(?:\.\d+)?)(?:\s+HP)?$/i.exec(amount.trim())
+  if (!match || !(Number(match[1]) > 0)) {
+    fail(usageError(`Amount must be in HP, e.g. "100 HP", got "${amount}"`))
+  }
+  return Number(match[1])
+}
+
+const formatVests = (vests: number) => `${vests.toFixed(6)} VESTS`
+const formatHp = (hp: number) => `${hp.toFixed(3)} HP`
+
+const powerupCommand = new Command('powerup')
+  .description('Turn HIVE into Hive Power (transfer_to_vesting)')
+  .argument('<amount>', 'HIVE to power up, e.g. "10.000 HIVE"')
+  .option('--to <account>', 'Account that receives the HP (defaults to yourself)')
+  .option('--account <name>', 'Account paying the HIVE (defaults to configured account)')
+  .action(async (amount: string, options) => {
+    const config = await getConfig()
+    const from = requireAccountName(config, options)
+
+    let operations: HiveOperation[] = []
+    try {
+      operations = validateOperations([{
+        type: 'transfer_to_vesting',
+        value: { from, to: options.to ? options.to.replace(/^@/, '') : from, amount: parseHiveAmount(amount) }
+      }])
+    } catch (error: any) {
+      fail(error)
+    }
+
+    const { to, amount: hive } = operations[0]!.value
+    const spinner = createSpinner('Broadcasting power up...').start()
+    try {
+      await broadcastOperations(operations, 'active', {
+        spinner,
+        successMessage: to === from ? `Powered up ${hive}` : `Powered up ${hive} to @${to}`,
+        wait: getWaitOptions(options)
+      })
+    } catch (error: any) {
+      fail(error, spinner)
+    }
+  })
+
+const powerdownCommand = new Command('powerdown')
+  .description('Start or stop turning Hive Power back into HIVE, paid over 13 weeks (withdraw_vesting)')
+  .argument('[amount]', 'HP to power down in total, e.g. "500 HP"')
+  .option('--stop', 'Stop the running power down')
+  .option('--account <name>', 'Account name (defaults to configured account)')
+  .action(async (amount: string | undefined, options) => {
+    const config = await getConfig()
+    const account = requireAccountName(config, options)
+    if (Boolean(amount) === Boolean(options.stop)) {
+      fail(usageError('Give either an amount of HP to power down or --stop'))
+    }
+    const hp = amount ? parseHpAmount(amount) : 0
+
+    const fetchSpinner = createSpinner('Fetching global properties...').start()
+    let vestingShares = '0.000000 VESTS'
+    try {
+      const client = await getClient()
+      const [props, info] = await Promise.all([getProps(client), getAccount(client, account)])
+      if (hp > 0) {
+        vestingShares = hpToVests(hp, props)
+        // Delegated HP cannot be powered down until the delegation is removed
+        const available = parseAssetAmount(info.vesting_shares) - parseAssetAmount(info.delegated_vesting_shares)
+        if (parseAssetAmount(vestingShares) > available) {
+          throw usageError(`@${account} has only ${formatHp(vestsToHp(available, props))} that is not delegated`)
+        }
+      } else if (info.next_vesting_withdrawal === NO_WITHDRAWAL) {
+        throw usageError(`@${account} has no power down running`)
+      }
+      fetchSpinner.stop()
+    } catch (error: any) {
+      fail(error, fetchSpinner)
+    }
+
+    const operations: HiveOperation[] = [
+      {
+        type: 'withdraw_vesting',
+        value: { account, vesting_shares: vestingShares }
+      }
+    ]
+
+    const spinner = createSpinner(hp > 0 ? 'Broadcasting power down...' : 'Broadcasting power down stop...').start()
+    try {
+      await broadcastOperations(operations, 'active', {
+        spinner,
+        successMessage: hp > 0 ? `Powering down ${formatHp(hp)} (${vestingShares}) over 13 weeks` : 'Power down stopped',
+        wait: getWaitOptions(options)
+      })
+    } catch (error: any) {
+      fail(error, spinner)
+    }
+  })
+
+const powerdownStatusCmd = new Command('status')
+  .description('Weekly schedule, next withdrawal and remaining amount of a power down')
+  .argument('[account]', 'Account name (defaults to configured account)')
+  .action(async (name: string | undefined) => {
+    const account = name ?? requireAccountName(await getConfig(), {}, 'argument')
+
+    const spinner = createSpinner(`Fetching power down of @${account}...`).start()
+    try {
+      const client = await getClient({ requireConfig: false })
+      const [props, info, routes] = await Promise.all([getProps(client), getAccount(client, account), getWithdrawRoutes(client, account)])
+      spinner.stop()
+
+      // to_withdraw and withdrawn are in millionths of a VESTS
+      const rate = parseAssetAmount(info.vesting_withdraw_rate)
+      let remaining = Math.max(Number(info.to_withdraw) - Number(info.withdrawn), 0) / 1e6
+      const active = info.next_vesting_withdrawal !== NO_WITHDRAWAL && rate > 0 && remaining > 0
+
+      const installments: { date: string; vests: number; hp: number }[] = []
+      let date = Date.parse(`${info.next_vesting_withdrawal}Z`)
+      while (active && remaining > 1e-6) {
+        const vests = Math.min(rate, remaining)
+        installments.push({ date: new Date(date).toISOString().slice(0, 19), vests, hp: vestsToHp(vests, props) })
+        remaining -= vests
+        date += WITHDRAW_INTERVAL_SECONDS * 1000
+      }
+      const remainingVests = installments.reduce((sum, installment) => sum + installment.vests, 0)
+
+      const status = {
+        account,
+        active,
+        rate: formatVests(rate),
+        rate_hp: formatHp(vestsToHp(rate, props)),
+        next_withdrawal: active ? info.next_vesting_withdrawal : null,
+        remaining: formatVests(remainingVests),
+        remaining_hp: formatHp(vestsToHp(remainingVests, props)),
+        installments: installments.map(({ date, vests, hp }) => ({ date, vests: formatVests(vests), hp: formatHp(hp) })),
+        routes: routes.map((route) => ({ to: route.to_account, percent: route.percent / 100, auto_vest: route.auto_vest }))
+      }
+
+      if (isJsonMode()) {
+        printResult(status)
+        return
+      }
+
+      if (!active) {
+        console.log(`@${account} has no power down running.`)
+        return
+      }
+
+      console.log(`@${account} is powering down ${status.rate_hp} (${status.rate}) a week`)
+      console.log(`  Next withdrawal: ${info.next_vesting_withdrawal.replace('T', ' ')} UTC`)
+      console.log(`  Remaining: ${status.remaining_hp} in ${installments.length} withdrawal${installments.length === 1 ? '' : 's'}`)
+      console.log('  Schedule:')
+      for (const installment of status.installments) {
+        console.log(chalk.dim(`    ${installment.date.slice(0, 10)}  ${installment.hp.padStart(14)}`))
+      }
+      for (const route of status.routes) {
+        console.log(`  ${route.percent}% goes to @${route.to}${route.auto_vest ? ' as HP' : ''}`)
+      }
+    } catch (error: any) {
+      fail(error, spinner)
+    }
+  })
+
+powerdownCommand.addCommand(powerdownStatusCmd)
+
+const withdrawRouteCommand = new Command('withdraw-route')
+  .description('Send part of each power down installment to another account')
+
+const withdrawRouteSetCmd = new Command('set')
+  .description('Route a percentage of power downs to an account; 0 removes the route')
+  .argument('<to>', 'Account receiving the share')
+  .argument('<percent>', 'Share of each installment, e.g. 25 or 25%')
+  .option('--auto-vest', 'Deliver the share as HP instead of HIVE')
+  .option('--account <name>', 'Account powering down (defaults to configured account)')
+  .action(async (to: string, percentText: string, options) => {
+    const config = await getConfig()
+    const from = requireAccountName(config, options)
+
+    to = to.replace(/^@/, '')
+    const percent = Number(percentText.replace(/%$/, ''))
+    if (!/^\d{1,3}(\.\d{1,2})?%?$/.test(percentText) || percent > 100) {
+      fail(usageError('Percent must be from 0 to 100 with at most two decimals'))
+    }
+    // The chain counts in hundredths of a percent
+    const basisPoints = Math.round(percent * 100)
+
+    const checkSpinner = createSpinner('Checking existing routes...').start()
+    try {
+      const client = await getClient()
+      const routes = await getWithdrawRoutes(client, from)
+      const others = routes.filter((route) => route.to_account !== to)
+      if (percent === 0 && others.length === routes.length) {
+        throw usageError(`@${from} has no withdraw route to @${to}`)
+      }
+      if (percent > 0 && others.length >= MAX_WITHDRAW_ROUTES) {
+        throw usageError(`@${from} already has ${MAX_WITHDRAW_ROUTES} withdraw routes, the most allowed`)
+      }
+      const total = others.reduce((sum, route) => sum + route.percent, 0) + basisPoints
+      if (total > 10000) {
+        throw usageError(`Routes would add up to ${total / 100}%; the other routes already take ${(total - basisPoints) / 100}%`)
+      }
+      checkSpinner.stop()
+    } catch (error: any) {
+      fail(error, checkSpinner)
+    }
+
+    const operations: HiveOperation[] = [
+      {
+        type: 'set_withdraw_vesting_route',
+        value: { from_account: from, to_account: to, percent: basisPoints, auto_vest: Boolean(options.autoVest) }
+      }
+    ]
+
+    const spinner = createSpinner('Broadcasting withdraw route...').start()
+    try {
+      await broadcastOperations(operations, 'active', {
+        spinner,
+        successMessage: percent > 0 ? `${percent}% of power downs now go to @${to}${options.autoVest ? ' as HP' : ''}` : `Removed the withdraw route to @${to}`,
+        wait: getWaitOptions(options)
+      })
+    } catch (error: any) {
+      fail(error, spinner)
+    }
+  })
+
+const withdrawRouteListCmd = new Command('list')
+  .description('Withdraw routes of an account')
+  .argument('[account]', 'Account name (defaults to configured account)')
+  .action(async (name: string | undefined) => {
+    const account = name ?? requireAccountName(await getConfig(), {}, 'argument')
+
+    const spinner = createSpinner(`Fetching withdraw routes of @${account}...`).start()
+    try {
+      const client = await getClient({ requireConfig: false })
+      const routes = await getWithdrawRoutes(client, account)
+      spinner.stop()
+
+      if (isJsonMode()) {
+        printResult(routes)
+        return
+      }
+
+      if (routes.length === 0) {
+        console.log(`@${account} has no withdraw routes; power downs are paid to @${account}.`)
+        return
+      }
+      for (const route of routes) {
+        console.log(`  ${String(route.percent / 100).padStart(6)}%  @${route.to_account}${route.auto_vest ? chalk.dim(' (as HP)') : ''}`)
+      }
+      const kept = 10000 - routes.reduce((sum, route) => sum + route.percent, 0)
+      console.log(chalk.dim(`  ${String(kept / 100).padStart(6)}%  stays with @${account}`))
+    } catch (error: any) {
+      fail(error, spinner)
+    }
+  })
+
+withdrawRouteCommand.addCommand(withdrawRouteSetCmd)
+withdrawRouteCommand.addCommand(withdrawRouteListCmd)
+
+;[powerupCommand, powerdownCommand, withdrawRouteSetCmd].forEach(addWaitOptions)
+
+export const powerCommands = [powerupCommand, powerdownCommand, withdrawRouteCommand]
@@ -0,0 +1,312 @@
+import { Command } from 'commander'
+import chalk from 'chalk'
+import { getConfig } from '../config.js'
+import { usageError } from '../errors.js'
+import type { HiveClient } from '../hive-client.js'
+import { formatAsset } from '../operation-format.js'
+import { validateOperations } from '../operation-schema.js'
+import { fail, printResult, unwrapResponse } from '../output.js'
+import type { HiveOperation } from '../types.js'
+import {
+  addWaitOptions,
+  broadcastOperations,
+  createSpinner,
+  getAccountName,
+  getClient,
+  getProps,
+  getWaitOptions,
+  isJsonMode,
+  parseAssetAmount,
+  requireAccountName,
+  vestsToHp
+} from '../utils.js'
+
+// Proposal 0 pays back into the DHF; proposals with fewer votes are not funded
+const RETURN_PROPOSAL_ID = 0
+
+// update_proposal_votes takes at most this many ids (HIVE_PROPOSAL_MAX_IDS_NUMBER)
+const MAX_IDS_PER_VOTE = 5
+
+// Creation fee: 10 HBD, plus 1 HBD per day beyond 60 days of duration
+const BASE_CREATION_FEE = 10
+const FEE_FREE_DAYS = 60
+
+// list_proposals calls this status "inactive"
+const STATUSES: Record<string, string> = { active: 'active', upcoming: 'inactive', expired: 'expired', all: 'all' }
+
+const PAGE_SIZE = 1000
+
+interface ProposalRow {
+  id: number
+  creator: string
+  receiver: string
+  subject: string
+  permlink: string
+  start_date: string
+  end_date: string
+  daily_pay: string
+  total_votes: string
+  status: 'active' | 'upcoming' | 'expired'
+  /** Active and above the return proposal, so paid while the DHF budget lasts. */
+  funded: boolean
+  /** Whether the account votes for it; null without an account. */
+  voted: boolean | null
+}
+
+async function listProposals(client: HiveClient, status: string, limit: number): Promise<any[]> {
+  const result: any = unwrapResponse(await client.call('database_api', 'list_proposals', {
+    // Descending by votes from the highest possible count
+    start: [-1, 0],
+    limit,
+    order: 'by_total_votes',
+    order_direction: 'descending',
+    status
+  }))
+  return result?.proposals ?? []
+}
+
+async function getReturnProposalVotes(client: HiveClient): Promise<bigint> {
+  const result: any = unwrapResponse(await client.call('database_api', 'find_proposals', { proposal_ids: [RETURN_PROPOSAL_ID] }))
+  return BigInt(result?.proposals?.[0]?.total_votes ?? 0)
+}
+
+/** Ids of every proposal the account votes for, paging through list_proposal_votes. */
+async function getVotedProposalIds(client: HiveClient, account: string): Promise<Set<number>> {
+  const ids = new Set<number>()
+  let start = 0
+  while (true) {
+    const result: any = unwrapResponse(await client.call('database_api', 'list_proposal_votes', {
+      start: [account, start],
+      limit: PAGE_SIZE,
+      order: 'by_voter_proposal',
+      order_direction: 'ascending',
+      status: 'all'
+    }))
+    const votes: any[] = (result?.proposal_votes ?? []).filter((vote: any) => vote.voter === account)
+    votes.forEach((vote) => ids.add(vote.proposal.proposal_id))
+    // A short page, or one running into the next voter, holds the last of them
+    if (votes.length < PAGE_SIZE) {
+      return ids
+    }
+    start = votes[votes.length - 1].proposal.proposal_id + 1
+  }
+}
+
+function parseProposalIds(values: string[]): number[] {
+  const ids = values.flatMap((value) => value.split(',')).map((value) => value.trim().replace(/^#/, '')).filter(Boolean)
+  const invalid = ids.filter((id) => !/^\d+$/.test(id))
+  if (ids.length === 0 || invalid.length > 0) {
+    fail(usageError(`Proposal ids must be numbers${invalid.length > 0 ? `, got ${invalid.join(', ')}` : ''}`))
+  }
+  return [...new Set(ids.map(Number))].sort((a, b) => a - b)
+}
+
+/** A date (2025-01-31) or UTC time (2025-01-31T12:00:00) as chain time. */
+function parseProposalDate(value: string, option: string): string {
+  const time = /^\d{4}-\d{2}-\d{2}$/.test(value) ? `${value}T00:00:00` : value.replace(/Z$/, '').replace(/\.\d+$/, '')
+  if (!/^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}$/.test(time) || Number.isNaN(Date.parse(`${time}Z`))) {
+    fail(usageError(`${option} must be a date (2025-01-31) or a UTC time (2025-01-31T12:00:00), got "${value}"`))
+  }
+  return time
+}
+
+/** Whether the proposal is running at the given chain time, or has yet to start or has ended. */
+function proposalStatus(proposal: any, now: number): ProposalRow['status'] {
+  if (Date.parse(`${proposal.start_date}Z`) > now) {
+    return 'upcoming'
+  }
+  return Date.parse(`${proposal.end_date}Z`) > now ? 'active' : 'expired'
+}
+
+/** Creation fee in HBD for a proposal running between the two chain times. */
+function proposalCreationFee(startDate: string, endDate: string): number {
+  // Whole days, as the chain counts them
+  const days = Math.floor((Date.parse(`${endDate}Z`) - Date.parse(`${startDate}Z`)) / 86_400_000)
+  return BASE_CREATION_FEE + Math.max(days - FEE_FREE_DAYS, 0)
+}
+
+export const proposalsCommand = new Command('proposals')
+  .description('Browse, vote on and create Decentralized Hive Fund (DHF) proposals')
+
+const proposalsListCmd = new Command('list')
+  .description('Proposals by votes, with daily pay, funding and your vote')
+  .option('-s, --status <status>', 'active, upcoming, expired or all', 'active')
+  .option('-l, --limit <number>', 'Maximum number of proposals', '50')
+  .option('--account <name>', 'Show the votes of this account (defaults to configured account)')
+  .action(async (options) => {
+    const status = STATUSES[options.status]
+    if (!status) {
+      fail(usageError(`--status must be one of: ${Object.keys(STATUSES).join(', ')}`))
+    }
+    const limit = Number(options.limit)
+    if (!Number.isInteger(limit) || limit < 1 || limit > PAGE_SIZE) {
+      fail(usageError(`--limit must be a number from 1 to ${PAGE_SIZE}`))
+    }
+    const account = getAccountName(await getConfig(), options)
+
+    const spinner = createSpinner('Fetching proposals...').start()
+    try {
+      const client = await getClient({ requireConfig: false })
+      const [proposals, threshold, voted, props]: [any[], bigint, Set<number> | null, any] = await Promise.all([
+        listProposals(client, status, limit),
+        getReturnProposalVotes(client),
+        account ? getVotedProposalIds(client, account) : Promise.resolve(null),
+        getProps(client)
+      ])
+      spinner.stop()
+
+      const now = Date.parse(`${props.time}Z`)
+      const rows: ProposalRow[] = proposals.map((proposal) => ({
+        id: proposal.proposal_id,
+        creator: proposal.creator,
+        receiver: proposal.receiver,
+        subject: proposal.subject,
+        permlink: proposal.permlink,
+        start_date: proposal.start_date,
+        end_date: proposal.end_date,
+        daily_pay: formatAsset(proposal.daily_pay),
+        total_votes: String(proposal.total_votes),
+        status: proposalStatus(proposal, now),
+        funded: proposal.proposal_id !== RETURN_PROPOSAL_ID
+          && proposalStatus(proposal, now) === 'active'
+          && BigInt(proposal.total_votes) > threshold,
+        voted: voted ? voted.has(proposal.proposal_id) : null
+      }))
+
+      if (isJsonMode()) {
+        printResult(rows)
+        return
+      }
+
+      if (rows.length === 0) {
+        console.log(chalk.yellow(`No ${options.status} proposals.`))
+        return
+      }
+
+      for (const row of rows) {
+        const votes = vestsToHp(Number(row.total_votes) / 1e6, props) / 1e6
+        const funding = row.id === RETURN_PROPOSAL_ID
+          ? chalk.yellow('return proposal')
+          : row.status !== 'active' ? chalk.dim(row.status) : row.funded ? chalk.green('funded') : chalk.dim('not funded')
+        const vote = row.voted === null ? '' : row.voted ? chalk.green(' ✔ voted') : ''
+        console.log(`${chalk.bold(`#${row.id}`)} ${row.subject}${vote}`)
+        console.log(chalk.dim(`  @${row.creator} → @${row.receiver}, ${row.daily_pay}/day, ${row.start_date.slice(0, 10)} to ${row.end_date.slice(0, 10)}`))
+        console.log(`  ${votes.toFixed(1)}M HP, ${funding}`)
+      }
+    } catch (error: any) {
+      fail(error, spinner)
+    }
+  })
+
+function proposalVoteCommand(approve: boolean): Command {
+  return new Command(approve ? 'vote' : 'unvote')
+    .description(approve ? 'Approve proposals' : 'Remove your approval of proposals')
+    .argument('<ids...>', 'Proposal ids, e.g. 242 250 or 242,250')
+    .option('--account <name>', 'Voting account (defaults to configured account)')
+    .action(async (values: string[], options) => {
+      const config = await getConfig()
+      const voter = requireAccountName(config, options)
+
+      const ids = parseProposalIds(values)
+
+      const operations: HiveOperation[] = []
+      for (let index = 0; index < ids.length; index += MAX_IDS_PER_VOTE) {
+        operations.push({
+          type: 'update_proposal_votes',
+          value: { voter, proposal_ids: ids.slice(index, index + MAX_IDS_PER_VOTE), approve, extensions: [] }
+        })
+      }
+
+      const list = ids.map((id) => `#${id}`).join(', ')
+      const spinner = createSpinner(`Broadcasting proposal ${approve ? 'votes' : 'unvotes'}...`).start()
+      try {
+        await broadcastOperations(operations, 'active', {
+          spinner,
+          successMessage: approve ? `Approved ${list}` : `Removed approval of ${list}`,
+          wait: getWaitOptions(options)
+        })
+      } catch (error: any) {
+        fail(error, spinner)
+      }
+    })
+}
+
+const proposalsVoteCmd = proposalVoteCommand(true)
+const proposalsUnvoteCmd = proposalVoteCommand(false)
+
+const proposalsCreateCmd = new Command('create')
+  .description('Create a proposal; its post must already exist')
+  .requiredOption('--receiver <account>', 'Account that receives the daily pay')
+  .requiredOption('--start <date>', 'First day of funding (2025-01-31 or 2025-01-31T12:00:00 UTC)')
+  .requiredOption('--end <date>', 'Day funding stops')
+  .requiredOption('--daily-pay <amount>', 'HBD per day, e.g. "250.000 HBD"')
+  .requiredOption('--subject <text>', 'Title, up to 80 characters')
+  .requiredOption('--permlink <permlink>', 'Permlink of the post describing the proposal, by the creator or receiver')
+  .option('--account <name>', 'Creator account (defaults to configured account)')
+  .action(async (options) => {
+    const config = await getConfig()
+    const creator = requireAccountName(config, options)
+
+    const startDate = parseProposalDate(options.start, '--start')
+    const endDate = parseProposalDate(options.end, '--end')
+    if (endDate <= startDate) {
+      fail(usageError('--end must be after --start'))
+    }
+    if (Date.parse(`${endDate}Z`) <= Date.now()) {
+      fail(usageError('--end must be in the future'))
+    }
+    if (!(parseAssetAmount(options.dailyPay) > 0)) {
+      fail(usageError('--daily-pay must be a positive HBD amount, e.g. "250.000 HBD"'))
+    }
+
+    let operations: HiveOperation[] = []
+    try {
+      operations = validateOperations([{
+        type: 'create_proposal',
+        value: {
+          creator,
+          receiver: options.receiver.replace(/^@/, ''),
+          start_date: startDate,
+          end_date: endDate,
+          daily_pay: options.dailyPay,
+          subject: options.subject,
+          permlink: options.permlink,
+          extensions: []
+        }
+      }])
+    } catch (error: any) {
+      fail(error)
+    }
+
+    const checkSpinner = createSpinner('Checking the proposal post...').start()
+    try {
+      const client = await getClient()
+      const receiver = operations[0]!.value.receiver
+      const authors = receiver === creator ? [creator] : [creator, receiver]
+      const posts: any[] = await Promise.all(authors.map(async (author) =>
+        unwrapResponse(await client.call('condenser_api', 'get_content', [author, options.permlink]))))
+      if (!posts.some((post) => post?.author)) {
+        throw usageError(`No post "${options.permlink}" by ${authors.map((author) => `@${author}`).join(' or ')}; publish the proposal post first`)
+      }
+      checkSpinner.stop()
+    } catch (error: any) {
+      fail(error, checkSpinner)
+    }
+
+    const fee = proposalCreationFee(startDate, endDate)
+    console.log(chalk.dim(`Creation fee: ${fee.toFixed(3)} HBD, paid from @${creator}'s balance and burned`))
+
+    const spinner = createSpinner('Broadcasting proposal...').start()
+    try {
+      await broadcastOperations(operations, 'active', { spinner, successMessage: 'Proposal created', wait: getWaitOptions(options) })
+    } catch (error: any) {
+      fail(error, spinner)
+    }
+  })
+
+proposalsCommand.addCommand(proposalsListCmd)
+proposalsCommand.addCommand(proposalsVoteCmd)
+proposalsCommand.addCommand(proposalsUnvoteCmd)
+proposalsCommand.addCommand(proposalsCreateCmd)
+
+;[proposalsVoteCmd, proposalsUnvoteCmd, proposalsCreateCmd].forEach(addWaitOptions)
@@ -1,4 +1,18 @@
 import { Command } from 'commander'
+import chalk from 'chalk'
+import {
+  blockOperations,
+  getBlockRange,
+  getBlockSize,
+  getBlockVirtualOperations,
+  getChainHead,
+  type Block,
+  type BlockOperation
+} from '../blocks.js'
+import { CliError, usageError } from '../errors.js'
+import type { HiveClient } from '../hive-client.js'
+import { formatOperation } from '../operation-format.js'
+import { fail, printResult } from '../output.js'
 import { createSpinner, getClient, isJsonMode, parseAssetAmount, parseHiveUrl, unwrapResult } from '../utils.js'
 
 const accountCommand = new Command('account')
@@ -10,10 +24,9 @@ const accountCommand = new Command('account')
       const client = await getClient({ requireConfig: false })
       const result = await client.call('condenser_api', 'get_accounts', [[name]])
       spinner.stop()
-      console.log(JSON.stringify(result, null, 2))
+      printResult(result)
     } catch (error: any) {
-      spinner.fail(error.message)
-      process.exit(1)
+      fail(error, spinner)
     }
   })
 
@@ -37,7 +50,7 @@ const balanceCommand = new Command('balance')
       const accountInfo = accounts[0]
 
       if (isJsonMode()) {
-        console.log(JSON.stringify({ account: accountResult, props: propsResult }, null, 2))
+        printResult({ account: accountData, props })
         return
       }
 
@@ -59,24 +72,171 @@ const balanceCommand = new Command('balance')
       console.log(`  Savings HBD: ${accountInfo.savings_hbd_balance}`)
       console.log(`  Pending Rewards: ${accountInfo.reward_hive_balance} | ${accountInfo.reward_hbd_balance} | ${accountInfo.reward_vesting_balance}`)
     } catch (error: any) {
-      spinner.fail(error.message)
-      process.exit(1)
+      fail(error, spinner)
     }
   })
 
+const MAX_LISTED_BLOCKS = 1000
+
+/**
+ * Block range from `<n>`, `<n>..<m>`, `head` or `lib`; either end of a range
+ * can be `head` or `lib` too.
+ */
+async function resolveBlockRange(client: HiveClient, spec: string): Promise<{ from: number; to: number }> {
+  const ends = spec.split('..')
+  if (ends.length > 2 || ends.some((end) => !/^(\d+|head|lib)$/.test(end))) {
+    throw usageError(`Block must be a number, a range like 100..110, "head" or "lib", got "${spec}"`)
+  }
+  const resolve = async (end: string) => /^\d+$/.test(end) ? Number(end) : await getChainHead(client, end === 'lib')
+  const from = await resolve(ends[0]!)
+  const to = ends[1] === undefined ? from : await resolve(ends[1])
+  if (from < 1 || to < from) {
+    throw usageError(`Block range ${spec} is empty`)
+  }
+  if (to - from + 1 > MAX_LISTED_BLOCKS) {
+    throw usageError(`Block ranges are limited to ${MAX_LISTED_BLOCKS} blocks; use "hive stream --from-block ${from} --to-block ${to}" for more`)
+  }
+  return { from, to }
+}
+
+interface BlockSummary {
+  block_num: number
+  block_id: string
+  timestamp: string
+  witness: string
+  transactions: number
+  operations: number
+  virtual_operations?: number
+  op_types: Record<string, number>
+  size_bytes: number
+}
+
+async function summarizeBlock(client: HiveClient, block: Block, virtual: BlockOperation[] | null): Promise<BlockSummary> {
+  const operations = [...blockOperations(block), ...(virtual ?? [])]
+  const opTypes: Record<string, number> = {}
+  for (const op of operations) {
+    opTypes[op.type] = (opTypes[op.type] ?? 0) + 1
+  }
+  return {
+    block_num: block.block_num,
+    block_id: block.block_id,
+    timestamp: block.timestamp,
+    witness: block.witness,
+    transactions: block.transactions.length,
+    operations: operations.length - (virtual?.length ?? 0),
+    ...(virtual ? { virtual_operations: virtual.length } : {}),
+    // Most frequent first
+    op_types: Object.fromEntries(Object.entries(opTypes).sort(([, a], [, b]) => b - a)),
+    size_bytes: await getBlockSize(client, block)
+  }
+}
+
+function printBlockSummary(summary: BlockSummary): void {
+  console.log(`${chalk.bold(`Block #${summary.block_num}`)} ${chalk.dim(summary.block_id)}`)
+  console.log(`  Time: ${summary.timestamp.replace('T', ' ')}`)
+  console.log(`  Witness: @${summary.witness}`)
+  console.log(`  Transactions: ${summary.transactions}`)
+  console.log(`  Operations: ${summary.operations}${summary.virtual_operations !== undefined ? ` (+${summary.virtual_operations} virtual)` : ''}`)
+  console.log(`  Size: ${summary.size_bytes.toLocaleString()} bytes`)
+  const types = Object.entries(summary.op_types)
+  if (types.length > 0) {
+    const width = Math.max(...types.map(([type]) => type.length))
+    console.log('  Operation types:')
+    for (const [type, count] of types) {
+      console.log(`    ${type.padEnd(width)} ${String(count).padStart(5)}`)
+    }
+  }
+}
+
+function printBlockOperations(block: Block, operations: BlockOperation[]): void {
+  console.log(`${chalk.bold(`Block #${block.block_num}`)} ${chalk.dim(`${block.timestamp.replace('T', ' ')} by @${block.witness}, ${block.transactions.length} transactions`)}`)
+  let group: string | null = null
+  for (const op of operations) {
+    const heading = op.virtual ? 'virtual operations' : op.trx_id
+    if (heading !== group) {
+      group = heading
+      console.log(`  ${op.virtual ? chalk.dim(heading) : chalk.cyan(heading)}`)
+    }
+    const tag = op.virtual && op.trx_id ? chalk.dim(`(from ${op.trx_id.slice(0, 8)}) `) : ''
+    console.log(`    ${chalk.bold(op.type)} ${tag}${formatOperation([op.type, op.value])}`)
+  }
+}
+
 const blockCommand = new Command('block')
-  .description('Get block by number')
-  .argument('<number>', 'Block number')
-  .action(async (number: string) => {
-    const spinner = createSpinner(`Fetching block ${number}...`).start()
+  .description('Get blocks by number or range, list their operations or summarize them')
+  .argument('<block>', 'Block number, range (100..110), "head" or "lib"')
+  .option('--ops', 'List each transaction\'s operations in one-line form')
+  .option('--virtual', 'Include virtual operations (implies --ops unless --summary)')
+  .option('--summary', 'Witness, transaction count, operation types and size of each block')
+  .action(async (spec: string, options) => {
+    const spinner = createSpinner(`Fetching block ${spec}...`).start()
     try {
       const client = await getClient({ requireConfig: false })
-      const result = await client.call('block_api', 'get_block', [{ block_num: parseInt(number) }])
+      const { from, to } = await resolveBlockRange(client, spec)
+
+      // A single block without options keeps the raw get_block output
+      if (from === to && !options.ops && !options.virtual && !options.summary) {
+        const result = await client.call('block_api', 'get_block', { block_num: from })
+        spinner.stop()
+        printResult(result)
+        return
+      }
+
+      const blocks: Block[] = []
+      while (blocks.length < to - from + 1) {
+        const next = from + blocks.length
+        spinner.text = `Fetching block${from === to ? '' : 's'} ${next}${from === to ? '' : `..${to}`}...`
+        const page = await getBlockRange(client, next, to - next + 1)
+        if (page.length === 0) {
+          throw new CliError('ERROR', `Block ${next} does not exist yet`, { block_num: next })
+        }
+        blocks.push(...page)
+      }
+
+      if (!options.ops && !options.virtual && !options.summary) {
+        spinner.stop()
+        printResult(blocks)
+        return
+      }
+
+      const virtualOps = new Map<number, BlockOperation[]>()
+      if (options.virtual) {
+        for (const block of blocks) {
+          spinner.text = `Fetching virtual operations of block ${block.block_num}...`
+          virtualOps.set(block.block_num, await getBlockVirtualOperations(client, block.block_num))
+        }
+      }
+
+      if (options.summary) {
+        const summaries: BlockSummary[] = []
+        for (const block of blocks) {
+          spinner.text = `Summarizing block ${block.block_num}...`
+          summaries.push(await summarizeBlock(client, block, virtualOps.get(block.block_num) ?? null))
+        }
+        spinner.stop()
+        if (isJsonMode()) {
+          printResult(from === to ? summaries[0] : summaries)
+          return
+        }
+        summaries.forEach(printBlockSummary)
+        return
+      }
+
       spinner.stop()
-      console.log(JSON.stringify(result, null, 2))
+      const listed = blocks.map((block) => ({ block, operations: [...blockOperations(block), ...(virtualOps.get(block.block_num) ?? [])] }))
+      if (isJsonMode()) {
+        printResult(listed.map(({ block, operations }) => ({
+          block_num: block.block_num,
+          block_id: block.block_id,
+          timestamp: block.timestamp,
+          witness: block.witness,
+          operations
+        })))
+        return
+      }
+      listed.forEach(({ block, operations }) => printBlockOperations(block, operations))
     } catch (error: any) {
-      spinner.fail(error.message)
-      process.exit(1)
+      fail(error, spinner)
     }
   })
 
@@ -93,13 +253,9 @@ const callCommand = new Command('call')
       const parsedParams = JSON.parse(params)
       const result = await client.call(api, method, Array.isArray(parsedParams) ? parsedParams : [parsedParams])
       spinner.stop()
-      const output = (!options.raw && result !== null && typeof result === 'object' && 'result' in result)
-        ? (result as any).result
-        : result
-      console.log(JSON.stringify(output, null, 2))
+      printResult(result, { unwrap: !options.raw })
     } catch (error: any) {
-      spinner.fail(error.message)
-      process.exit(1)
+      fail(error, spinner)
     }
   })
 
@@ -123,8 +279,7 @@ const contentCommand = new Command('content')
     const author = parsed ? parsed.author : authorOrUrl
     const perm = parsed ? parsed.permlink : permlink
     if (!perm) {
-      console.error('Permlink required when not passing a URL')
-      process.exit(1)
+      fail(usageError('Permlink required when not passing a URL'))
     }
 
     const spinner = createSpinner('Fetching content...').start()
@@ -132,10 +287,9 @@ const contentCommand = new Command('content')
       const client = await getClient({ requireConfig: false })
       const result = await client.call('bridge', 'get_post', { author, permlink: perm })
       spinner.stop()
-      console.log(JSON.stringify(result, null, 2))
+      printResult(result)
     } catch (error: any) {
-      spinner.fail(error.message)
-      process.exit(1)
+      fail(error, spinner)
     }
   })
 
@@ -148,8 +302,7 @@ const repliesCommand = new Command('replies')
     const author = parsed ? parsed.author : authorOrUrl
     const perm = parsed ? parsed.permlink : permlink
     if (!perm) {
-      console.error('Permlink required when not passing a URL')
-      process.exit(1)
+      fail(usageError('Permlink required when not passing a URL'))
     }
 
     const spinner = createSpinner('Fetching replies...').start()
@@ -159,6 +312,11 @@ const repliesCommand = new Command('replies')
       const replies = unwrapResult(rawResult) as any[]
       spinner.stop()
 
+      if (isJsonMode()) {
+        printResult(rawResult)
+        return
+      }
+
       if (!Array.isArray(replies) || replies.length === 0) {
         console.log('No replies found.')
         return
@@ -169,8 +327,7 @@ const repliesCommand = new Command('replies')
         console.log(`@${reply.author} (rep ${reply.author_reputation}) | ${body}`)
       }
     } catch (error: any) {
-      spinner.fail(error.message)
-      process.exit(1)
+      fail(error, spinner)
     }
   })
 
@@ -188,7 +345,7 @@ const feedCommand = new Command('feed')
       spinner.stop()
 
       if (isJsonMode()) {
-        console.log(JSON.stringify(rawResult, null, 2))
+        printResult(rawResult)
         return
       }
 
@@ -205,8 +362,7 @@ const feedCommand = new Command('feed')
         console.log(`  Created: ${post.created} | Payout: ${payout} | Votes: ${votes}`)
       }
     } catch (error: any) {
-      spinner.fail(error.message)
-      process.exit(1)
+      fail(error, spinner)
     }
   })
 
@@ -219,10 +375,9 @@ const propsCommand = new Command('props')
       const client = await getClient({ requireConfig: false })
       const result = await client.call('database_api', 'get_dynamic_global_properties', {})
       spinner.stop()
-      console.log(JSON.stringify(result, null, 2))
+      printResult(result)
     } catch (error: any) {
-      spinner.fail(error.message)
-      process.exit(1)
+      fail(error, spinner)
     }
   })
 
@@ -256,14 +411,13 @@ const rcCommand = new Command('rc')
       spinner.stop()
 
       if (isJsonMode()) {
-        console.log(JSON.stringify(result, null, 2))
+        printResult(result)
         return
       }
 
       const rcAccounts = result?.result?.rc_accounts ?? result?.rc_accounts
       if (!rcAccounts?.length) {
-        console.error(`No RC data found for @${name}`)
-        process.exit(1)
+        fail(usageError(`No RC data found for @${name}`))
       }
 
       const rc = rcAccounts[0]
@@ -282,8 +436,7 @@ const rcCommand = new Command('rc')
       if (rc.delegated_rc !== '0') console.log(`Delegated out:  ${fmt(BigInt(rc.delegated_rc))}`)
       if (rc.received_delegated_rc !== '0') console.log(`Delegated in:   ${fmt(BigInt(rc.received_delegated_rc))}`)
     } catch (error: any) {
-      spinner.fail(error.message)
-      process.exit(1)
+      fail(error, spinner)
     }
   })
 
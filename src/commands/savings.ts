@@ -0,0 +1,240 @@
+import { Command } from 'commander'
+import chalk from 'chalk'
+import { getConfig } from '../config.js'
+import { usageError } from '../errors.js'
+import type { HiveClient } from '../hive-client.js'
+import { formatAsset } from '../operation-format.js'
+import { validateOperations } from '../operation-schema.js'
+import { fail, printResult, unwrapResponse } from '../output.js'
+import { formatDuration } from '../rc.js'
+import type { HiveOperation } from '../types.js'
+import {
+  addWaitOptions,
+  broadcastOperations,
+  createSpinner,
+  getAccount,
+  getClient,
+  getProps,
+  getWaitOptions,
+  isJsonMode,
+  parseAssetAmount,
+  requireAccountName
+} from '../utils.js'
+
+// HIVE_SAVINGS_WITHDRAW_REQUEST_LIMIT
+const MAX_PENDING_WITHDRAWALS = 100
+
+// Interest is paid with the next savings operation once this long has passed since the last payment
+const INTEREST_INTERVAL_SECONDS = 30 * 24 * 3600
+
+const SECONDS_PER_YEAR = 60 * 60 * 24 * 365
+
+const MAX_REQUEST_ID = 2 ** 32 - 1
+
+async function getSavingsWithdrawals(client: HiveClient, account: string): Promise<any[]> {
+  const result: any = unwrapResponse(await client.call('database_api', 'find_savings_withdrawals', { account }))
+  return result?.withdrawals ?? []
+}
+
+/** "10 HBD" or "10.000 HBD" as "10.000 HBD"; HIVE works the same way. */
+function parseSavingsAmount(amount: string): string {
+  const match = /^(\d+(?:\.\d{1,3})?)\s+(HIVE|HBD)$/i.exec(amount.trim())
+  if (!match || !(Number(match[1]) > 0)) {
+    fail(usageError(`Amount must be a positive HIVE or HBD amount, e.g. "10.000 HBD", got "${amount}"`))
+  }
+  return `${Number(match[1]).toFixed(3)} ${match[2]!.toUpperCase()}`
+}
+
+/** A request id not used by the account's pending withdrawals, based on the current time. */
+function newRequestId(pending: any[]): number {
+  const used = new Set(pending.map((withdrawal) => withdrawal.request_id))
+  let id = Math.floor(Date.now() / 1000) % MAX_REQUEST_ID
+  while (used.has(id)) {
+    id = (id + 1) % MAX_REQUEST_ID
+  }
+  return id
+}
+
+/**
+ * HBD interest earned since the last payment but not paid yet, from the
+ * account's HBD-seconds, the same way the chain computes it when paying.
+ */
+function estimateUnpaidInterest(account: any, ratePercent: number, now: number): number {
+  const balance = parseAssetAmount(account.savings_hbd_balance)
+  const sinceUpdate = Math.max((now - Date.parse(`${account.savings_hbd_seconds_last_update}Z`)) / 1000, 0)
+  // savings_hbd_seconds counts thousandths of HBD times seconds
+  const hbdSeconds = Number(account.savings_hbd_seconds ?? 0) / 1000 + balance * sinceUpdate
+  return hbdSeconds * ratePercent / 100 / SECONDS_PER_YEAR
+}
+
+function savingsTransferCommand(name: 'deposit' | 'withdraw'): Command {
+  const deposit = name === 'deposit'
+  return new Command(name)
+    .description(deposit
+      ? 'Move HIVE or HBD into savings (HBD in savings earns interest)'
+      : 'Start moving HIVE or HBD out of savings; it arrives after 3 days')
+    .argument('<amount>', 'Amount, e.g. "100.000 HBD" or "10 HIVE"')
+    .option('--to <account>', deposit ? 'Put it in the savings of this account' : 'Pay it out to this account')
+    .option('-m, --memo <text>', 'Memo', '')
+    .option('--account <name>', 'Account name (defaults to configured account)')
+    .action(async (amount: string, options) => {
+      const config = await getConfig()
+      const from = requireAccountName(config, options)
+
+      const to = options.to ? options.to.replace(/^@/, '') : from
+      const value: Record<string, unknown> = { from, to, amount: parseSavingsAmount(amount), memo: options.memo }
+
+      if (!deposit) {
+        const checkSpinner = createSpinner('Checking pending withdrawals...').start()
+        try {
+          const client = await getClient()
+          const pending = await getSavingsWithdrawals(client, from)
+          if (pending.length >= MAX_PENDING_WITHDRAWALS) {
+            throw usageError(`@${from} already has ${MAX_PENDING_WITHDRAWALS} pending savings withdrawals, the most allowed`)
+          }
+          value.request_id = newRequestId(pending)
+          checkSpinner.stop()
+        } catch (error: any) {
+          fail(error, checkSpinner)
+        }
+      }
+
+      let operations: HiveOperation[] = []
+      try {
+        operations = validateOperations([{ type: deposit ? 'transfer_to_savings' : 'transfer_from_savings', value }])
+      } catch (error: any) {
+        fail(error)
+      }
+
+      const spinner = createSpinner(deposit ? 'Broadcasting savings deposit...' : 'Broadcasting savings withdrawal...').start()
+      try {
+        await broadcastOperations(operations, 'active', {
+          spinner,
+          successMessage: deposit
+            ? `Moved ${value.amount} to savings${to !== from ? ` of @${to}` : ''}`
+            : `Withdrawing ${value.amount} from savings${to !== from ? ` to @${to}` : ''} (request ${value.request_id}), available in 3 days`,
+          wait: getWaitOptions(options)
+        })
+      } catch (error: any) {
+        fail(error, spinner)
+      }
+    })
+}
+
+export const savingsCommand = new Command('savings')
+  .description('Move HIVE and HBD in and out of savings and track pending withdrawals')
+
+const savingsDepositCmd = savingsTransferCommand('deposit')
+const savingsWithdrawCmd = savingsTransferCommand('withdraw')
+
+const savingsCancelCmd = new Command('cancel')
+  .description('Cancel a pending savings withdrawal; the amount stays in savings')
+  .argument('<request-id>', 'Request id, as shown by "hive savings pending"')
+  .option('--account <name>', 'Account name (defaults to configured account)')
+  .action(async (requestIdText: string, options) => {
+    const config = await getConfig()
+    const from = requireAccountName(config, options)
+    if (!/^\d+$/.test(requestIdText) || Number(requestIdText) > MAX_REQUEST_ID) {
+      fail(usageError('Request id must be a number'))
+    }
+    const requestId = Number(requestIdText)
+
+    const checkSpinner = createSpinner('Checking pending withdrawals...').start()
+    try {
+      const client = await getClient()
+      const pending = await getSavingsWithdrawals(client, from)
+      if (!pending.some((withdrawal) => withdrawal.request_id === requestId)) {
+        const error = usageError(`@${from} has no pending savings withdrawal ${requestId}`)
+        error.hint = 'List them with "hive savings pending"'
+        throw error
+      }
+      checkSpinner.stop()
+    } catch (error: any) {
+      fail(error, checkSpinner)
+    }
+
+    const operations: HiveOperation[] = [
+      {
+        type: 'cancel_transfer_from_savings',
+        value: { from, request_id: requestId }
+      }
+    ]
+
+    const spinner = createSpinner('Broadcasting withdrawal cancellation...').start()
+    try {
+      await broadcastOperations(operations, 'active', { spinner, successMessage: `Cancelled savings withdrawal ${requestId}`, wait: getWaitOptions(options) })
+    } catch (error: any) {
+      fail(error, spinner)
+    }
+  })
+
+const savingsPendingCmd = new Command('pending')
+  .description('Savings balances, HBD interest and pending withdrawals with their completion times')
+  .argument('[account]', 'Account name (defaults to configured account)')
+  .action(async (name: string | undefined) => {
+    const account = name ?? requireAccountName(await getConfig(), {}, 'argument')
+
+    const spinner = createSpinner(`Fetching savings of @${account}...`).start()
+    try {
+      const client = await getClient({ requireConfig: false })
+      const [info, withdrawals, props]: [any, any[], any] = await Promise.all([
+        getAccount(client, account),
+        getSavingsWithdrawals(client, account),
+        getProps(client)
+      ])
+      spinner.stop()
+
+      const now = Date.parse(`${props.time}Z`)
+      const rate = props.hbd_interest_rate / 100
+      const lastPayment = Date.parse(`${info.savings_hbd_last_interest_payment}Z`)
+      const result = {
+        account,
+        savings_hive: info.savings_balance,
+        savings_hbd: info.savings_hbd_balance,
+        hbd_interest_rate: rate,
+        unpaid_interest: `${estimateUnpaidInterest(info, rate, now).toFixed(3)} HBD`,
+        interest_payable_after: new Date(lastPayment + INTEREST_INTERVAL_SECONDS * 1000).toISOString().slice(0, 19),
+        withdrawals: withdrawals
+          .sort((a, b) => a.complete.localeCompare(b.complete))
+          .map((withdrawal) => ({
+            request_id: withdrawal.request_id,
+            amount: formatAsset(withdrawal.amount),
+            to: withdrawal.to,
+            memo: withdrawal.memo,
+            complete: withdrawal.complete
+          }))
+      }
+
+      if (isJsonMode()) {
+        printResult(result)
+        return
+      }
+
+      console.log(`@${account} savings: ${result.savings_hive}, ${result.savings_hbd}`)
+      console.log(`  HBD interest: ${rate}% a year, about ${result.unpaid_interest} accrued and not paid yet`)
+      const payable = Date.parse(`${result.interest_payable_after}Z`)
+      console.log(chalk.dim(payable > now
+        ? `  Interest is paid with the first savings operation after ${result.interest_payable_after.replace('T', ' ')} UTC`
+        : '  Interest is paid with the next savings operation'))
+
+      if (result.withdrawals.length === 0) {
+        console.log('No pending withdrawals.')
+        return
+      }
+      console.log('Pending withdrawals:')
+      for (const withdrawal of result.withdrawals) {
+        const remaining = (Date.parse(`${withdrawal.complete}Z`) - now) / 1000
+        const to = withdrawal.to !== account ? ` to @${withdrawal.to}` : ''
+        console.log(`  ${chalk.bold(String(withdrawal.request_id))}  ${withdrawal.amount}${to}, completes ${withdrawal.complete.replace('T', ' ')} UTC ${chalk.dim(`(in ${formatDuration(Math.max(remaining, 0))})`)}`)
+      }
+    } catch (error: any) {
+      fail(error, spinner)
+    }
+  })
+
+savingsCommand.addCommand(savingsDepositCmd)
+savingsCommand.addCommand(savingsWithdrawCmd)
+savingsCommand.addCommand(savingsCancelCmd)
+savingsCommand.addCommand(savingsPendingCmd)
+
+;[savingsDepositCmd, savingsWithdrawCmd, savingsCancelCmd].forEach(addWaitOptions)
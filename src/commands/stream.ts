@@ -0,0 +1,71 @@
+import { Command } from 'commander'
+import chalk from 'chalk'
+import { createOperationFilter, matchesFilter, streamOperations } from '../blocks.js'
+import { usageError } from '../errors.js'
+import { fail, useJsonLinesOutput } from '../output.js'
+import { getClient } from '../utils.js'
+
+const list = (value: string | undefined): string[] => value ? value.split(',').map((item) => item.trim()).filter(Boolean) : []
+
+function parseBlockNumber(value: string | undefined, option: string): number | undefined {
+  if (value === undefined) return undefined
+  if (!/^\d+$/.test(value) || Number(value) < 1) {
+    fail(usageError(`${option} must be a block number`))
+  }
+  return Number(value)
+}
+
+export const streamCommand = new Command('stream')
+  .description('Follow new blocks and print their operations as JSON Lines')
+  .option('--from-block <number>', 'Start at this block instead of the current one (to resume)')
+  .option('--to-block <number>', 'Stop after this block')
+  .option('--irreversible', 'Follow the last irreversible block instead of the head (no forks, ~45s behind)')
+  .option('--virtual', 'Include virtual operations (rewards, fills, interest, ...)')
+  .option('-t, --type <types>', 'Operation types to print (comma-separated), e.g. transfer,custom_json')
+  .option('--account <names>', 'Only operations involving one of these accounts (comma-separated)')
+  .option('--id <ids>', 'Only custom_json operations with one of these ids (comma-separated)')
+  .option('--community <names>', 'Only top-level posts and community operations in these communities (comma-separated)')
+  .addHelpText('after', `
+Each line is {"block", "timestamp", "trx_id", "trx_in_block", "op_in_trx", "virtual", "type", "value"}.
+Progress goes to stderr. To resume after a restart, pass the last printed block + 1 to --from-block.`)
+  .action(async (options) => {
+    useJsonLinesOutput()
+    const fromBlock = parseBlockNumber(options.fromBlock, '--from-block')
+    const toBlock = parseBlockNumber(options.toBlock, '--to-block')
+    if (fromBlock !== undefined && toBlock !== undefined && toBlock < fromBlock) {
+      fail(usageError('--to-block must not be before --from-block'))
+    }
+
+    try {
+      const filter = createOperationFilter({
+        types: list(options.type),
+        accounts: list(options.account).map((account) => account.replace(/^@/, '')),
+        customJsonIds: list(options.id),
+        communities: list(options.community)
+      })
+      const client = await getClient({ requireConfig: false })
+
+      let started = false
+      for await (const { block, operations } of streamOperations(client, {
+        fromBlock,
+        toBlock,
+        irreversible: options.irreversible,
+        virtual: options.virtual,
+        onRetry: (error, at, delayMs) => {
+          console.error(chalk.yellow(`⚠ Block ${at}: ${error.message}; retrying in ${Math.round(delayMs / 1000)}s`))
+        }
+      })) {
+        if (!started) {
+          console.error(chalk.dim(`Streaming from block ${block}${options.irreversible ? ' (irreversible)' : ''}`))
+          started = true
+        }
+        const lines = operations.filter((op) => matchesFilter(op, filter)).map((op) => JSON.stringify(op))
+        if (lines.length > 0) {
+          process.stdout.write(`${lines.join('\n')}\n`)
+        }
+      }
+      console.error(chalk.dim(`Stopped after block ${toBlock}`))
+    } catch (error: any) {
+      fail(error)
+    }
+  })
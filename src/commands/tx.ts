@@ -0,0 +1,416 @@
+import { Command } from 'commander'
+import chalk from 'chalk'
+import inquirer from 'inquirer'
+import { getConfig } from '../config.js'
+import { CliError, configError, usageError } from '../errors.js'
+import { HiveClient } from '../hive-client.js'
+import { evaluateSignatures, publicKeyFromWif, type AuthorityStatus } from '../keys.js'
+import { resolveKey } from '../keystore.js'
+import { formatOperation, toOperationTuple } from '../operation-format.js'
+import { getRequiredAuthorities } from '../operations.js'
+import { fail, printResult } from '../output.js'
+import { isExpired, readTransactionFile, writeTransactionFile } from '../transaction-file.js'
+import type { HiveTransaction, TransactionFile } from '../types.js'
+import { addWaitOptions, createSpinner, getClient, getWaitOptions, isJsonMode, unwrapResult, waitForConfirmation } from '../utils.js'
+
+async function loadTransactionFile(path: string): Promise<TransactionFile> {
+  try {
+    return await readTransactionFile(path)
+  } catch (error: any) {
+    fail(usageError(error.message))
+  }
+}
+
+async function promptForKey(keyType: string): Promise<string> {
+  const answers = await inquirer.prompt([
+    {
+      type: 'password',
+      name: 'key',
+      mask: '*',
+      message: `Private ${keyType} key (WIF):`,
+      validate: (input: string) => input.length > 0 || 'Key is required'
+    }
+  ])
+  return answers.key as string
+}
+
+function printAuthorityStatus(status: AuthorityStatus): void {
+  const mark = status.satisfied ? chalk.green('✔') : chalk.red('✗')
+  const via = status.satisfiedBy !== status.role ? chalk.dim(` (via ${status.satisfiedBy} authority)`) : ''
+  const remaining = status.satisfied ? '' : chalk.yellow(` — needs ${status.threshold - status.weight} more weight`)
+  console.log(`${mark} @${status.account} ${status.role}: weight ${status.weight}/${status.threshold}${via}${remaining}`)
+  for (const key of status.keys) {
+    console.log(`    ${key.signed ? chalk.green('✔') : chalk.dim('○')} ${key.publicKey} ${chalk.dim(`(weight ${key.weight})`)}`)
+  }
+  for (const account of status.accounts) {
+    console.log(`    ${account.signed ? chalk.green('✔') : chalk.dim('○')} @${account.account} ${chalk.dim(`(weight ${account.weight})`)}`)
+  }
+}
+
+async function checkSigners(client: HiveClient, transaction: HiveTransaction): Promise<AuthorityStatus[]> {
+  const required = getRequiredAuthorities(transaction.operations)
+  return evaluateSignatures(client, required, client.getSignerKeys(transaction))
+}
+
+export const txCommand = new Command('tx')
+  .description('Look up transactions, and the offline and multi-signature workflow for files written with --unsigned/--sign-only')
+
+const txSignCmd = new Command('sign')
+  .description('Sign a transaction file (works without network access)')
+  .argument('<file>', 'Transaction file written with --unsigned')
+  .option('-o, --output <file>', 'Write the signed transaction here instead of updating <file>')
+  .option('-k, --key-type <type>', 'Key to sign with (posting, active or owner); defaults to the role stored in the file')
+  .action(async (path: string, options) => {
+    const file = await loadTransactionFile(path)
+
+    const keyType = options.keyType ?? file.keyType
+    if (!['posting', 'active', 'owner'].includes(keyType)) {
+      fail(usageError('Key type must be posting, active or owner'))
+    }
+
+    if (isExpired(file.transaction)) {
+      fail(usageError(`Transaction expired at ${file.transaction.expiration} UTC. Build it again with --unsigned.`))
+    }
+
+    const config = await getConfig()
+    let key: string | undefined
+    try {
+      key = config ? await resolveKey(config, keyType) : undefined
+    } catch (error: any) {
+      fail(configError(error.message))
+    }
+
+    if (!key) {
+      key = await promptForKey(keyType)
+    }
+
+    try {
+      // Signing is local; the client is only used for its hive-tx setup
+      const client = new HiveClient(config || { account: '' })
+      const signed = client.signTransactionWithKey(file.transaction, key)
+      const output = options.output ?? path
+      await writeTransactionFile(output, { ...file, keyType, transaction: signed })
+      console.log(chalk.green(`✔ Signed with ${keyType} key (${signed.signatures?.length ?? 0} signature(s))`))
+      printResult({ file: output, tx_id: client.getTransactionId(signed), expiration: signed.expiration })
+    } catch (error: any) {
+      fail(usageError(`Signing failed: ${error.message}`))
+    }
+  })
+
+const txSendCmd = new Command('send')
+  .description('Broadcast a signed transaction file')
+  .argument('<file>', 'Signed transaction file')
+  .action(async (path: string, options) => {
+    const file = await loadTransactionFile(path)
+
+    if (!file.transaction.signatures?.length) {
+      fail(usageError(`Transaction is not signed. Run "hive tx sign ${path}" first.`))
+    }
+
+    if (isExpired(file.transaction)) {
+      fail(usageError(`Transaction expired at ${file.transaction.expiration} UTC and can no longer be broadcast.`))
+    }
+
+    const spinner = createSpinner('Checking signatures against on-chain authorities...').start()
+    try {
+      const client = await getClient({ requireConfig: false })
+      const statuses = await checkSigners(client, file.transaction)
+      if (statuses.some((status) => !status.satisfied)) {
+        spinner.stop()
+        if (!isJsonMode()) {
+          statuses.forEach(printAuthorityStatus)
+          console.log(chalk.dim(`Add signatures with "hive tx add-signature ${path}"`))
+        }
+        fail(new CliError('USAGE', 'Signature threshold not met; not broadcasting', { authorities: statuses }))
+      }
+
+      spinner.text = 'Checking resource credits...'
+      client.onWarning = (message) => {
+        spinner.warn(message)
+        spinner.start()
+      }
+      await client.preflightRc(file.transaction)
+
+      spinner.text = 'Broadcasting transaction...'
+      const result = await client.sendTransaction(file.transaction)
+      const wait = getWaitOptions(options)
+      if (wait) {
+        const confirmation = await waitForConfirmation(client, result.tx_id, wait, spinner)
+        spinner.succeed(`Transaction broadcasted successfully (${confirmation.status} in block ${confirmation.block_num})`)
+        printResult(confirmation)
+        return
+      }
+      spinner.succeed('Transaction broadcasted successfully')
+      printResult(result)
+    } catch (error: any) {
+      fail(error, spinner)
+    }
+  })
+
+const txAddSignatureCmd = new Command('add-signature')
+  .description('Append signatures from additional keys to a transaction file (multi-signature)')
+  .argument('<file>', 'Transaction file')
+  .option('-o, --output <file>', 'Write the transaction here instead of updating <file>')
+  .option('-k, --key-type <type>', 'Sign with the configured posting, active or owner key instead of prompting for a WIF')
+  .option('-s, --signature <signature>', 'Append a signature produced by another tool')
+  .action(async (path: string, options) => {
+    if (options.keyType !== undefined && !['posting', 'active', 'owner'].includes(options.keyType)) {
+      fail(usageError('Key type must be posting, active or owner'))
+    }
+
+    const file = await loadTransactionFile(path)
+
+    if (isExpired(file.transaction)) {
+      fail(usageError(`Transaction expired at ${file.transaction.expiration} UTC. Build it again with --unsigned.`))
+    }
+
+    const config = await getConfig()
+    const client = new HiveClient(config || { account: '' })
+    let transaction = file.transaction
+
+    try {
+      const existingSigners = new Set(client.getSignerKeys(transaction))
+
+      if (options.signature) {
+        transaction = { ...transaction, signatures: [...(transaction.signatures ?? []), options.signature] }
+        // A signature over different data still recovers to some key, so show which one
+        const publicKey = client.getSignerKeys(transaction).at(-1)
+        console.log(chalk.green(`✔ Added signature from ${publicKey}`))
+      } else {
+        let addMore = true
+        while (addMore) {
+          const key = options.keyType
+            ? await resolveKey(config || { account: '' }, options.keyType)
+            : await promptForKey('signing')
+          if (!key) {
+            throw new Error(`${options.keyType} key is not configured`)
+          }
+
+          const publicKey = publicKeyFromWif(key)
+          if (existingSigners.has(publicKey)) {
+            console.log(chalk.yellow(`${publicKey} has already signed this transaction`))
+          } else {
+            transaction = client.signTransactionWithKey(transaction, key)
+            existingSigners.add(publicKey)
+            console.log(chalk.green(`✔ Added signature from ${publicKey}`))
+          }
+
+          if (options.keyType) break
+          const { again } = await inquirer.prompt([
+            { type: 'confirm', name: 'again', message: 'Add another signature?', default: false }
+          ])
+          addMore = again
+        }
+      }
+    } catch (error: any) {
+      fail(usageError(`Could not add signature: ${error.message}`))
+    }
+
+    const output = options.output ?? path
+    await writeTransactionFile(output, { ...file, transaction })
+    console.log(chalk.dim(`${transaction.signatures?.length ?? 0} signature(s) in ${output}. Check progress with "hive tx signers ${output}".`))
+  })
+
+const txSignersCmd = new Command('signers')
+  .description('Show which required authorities the signatures satisfy, using on-chain weights')
+  .argument('<file>', 'Transaction file')
+  .action(async (path: string) => {
+    const file = await loadTransactionFile(path)
+
+    const spinner = createSpinner('Checking signatures against on-chain authorities...').start()
+    try {
+      const client = await getClient({ requireConfig: false })
+      const statuses = await checkSigners(client, file.transaction)
+      spinner.stop()
+
+      if (isJsonMode()) {
+        printResult({
+          tx_id: client.getTransactionId(file.transaction),
+          signer_keys: client.getSignerKeys(file.transaction),
+          ready: statuses.every((status) => status.satisfied),
+          authorities: statuses
+        })
+        return
+      }
+
+      statuses.forEach(printAuthorityStatus)
+      console.log(statuses.every((status) => status.satisfied)
+        ? chalk.green(`Ready to broadcast with "hive tx send ${path}"`)
+        : chalk.yellow('Threshold not met yet'))
+    } catch (error: any) {
+      fail(error, spinner)
+    }
+  })
+
+type TxStatus = 'unknown' | 'mempool' | 'included' | 'irreversible' | 'expired'
+
+// transaction_status_api statuses; too_old means the node no longer tracks it
+const FIND_TRANSACTION_STATUS: Record<string, TxStatus> = {
+  unknown: 'unknown',
+  too_old: 'unknown',
+  within_mempool: 'mempool',
+  within_reversible_block: 'included',
+  within_irreversible_block: 'irreversible',
+  expired_reversible: 'expired',
+  expired_irreversible: 'expired'
+}
+
+interface TxLookup {
+  tx_id: string
+  status: TxStatus
+  block_num?: number
+  trx_num?: number
+  transaction?: HiveTransaction
+}
+
+function parseTxId(txId: string): string {
+  if (!/^[0-9a-f]{40}$/i.test(txId)) {
+    fail(usageError(`"${txId}" is not a transaction id (40 hex characters)`))
+  }
+  return txId.toLowerCase()
+}
+
+/**
+ * Where a transaction is: transaction_status_api knows recent and pending
+ * transactions, get_transaction (account history) knows older ones. Either
+ * may be missing on a node, so both are tried.
+ */
+async function lookupTransaction(client: HiveClient, txId: string): Promise<TxLookup> {
+  const lookup: TxLookup = { tx_id: txId, status: 'unknown' }
+
+  try {
+    const found: any = unwrapResult(await client.call('transaction_status_api', 'find_transaction', { transaction_id: txId }))
+    lookup.status = FIND_TRANSACTION_STATUS[found?.status] ?? 'unknown'
+    if (found?.block_num) lookup.block_num = found.block_num
+  } catch {
+    // Plugin not enabled on this node
+  }
+
+  const response: any = await client.call('condenser_api', 'get_transaction', [txId])
+  const tx = response?.result
+  if (tx?.block_num) {
+    const { block_num, transaction_num, transaction_id, ...transaction } = tx
+    lookup.transaction = transaction
+    lookup.block_num = block_num
+    lookup.trx_num = transaction_num
+
+    if (lookup.status === 'unknown') {
+      const props: any = unwrapResult(await client.call('condenser_api', 'get_dynamic_global_properties', []))
+      lookup.status = props.last_irreversible_block_num >= block_num ? 'irreversible' : 'included'
+    }
+  }
+
+  return lookup
+}
+
+/** Signing keys with the accounts they belong to. */
+async function describeSigners(client: HiveClient, transaction: HiveTransaction): Promise<{ key: string; accounts: string[] }[]> {
+  const keys = client.getSignerKeys(transaction)
+  let references: string[][] = []
+  try {
+    const result: any = unwrapResult(await client.call('account_by_key_api', 'get_key_references', { keys }))
+    references = result?.accounts ?? []
+  } catch {
+    // Accounts are a convenience; the keys are still shown
+  }
+  return keys.map((key, index) => ({ key, accounts: references[index] ?? [] }))
+}
+
+const STATUS_COLORS: Record<TxStatus, (text: string) => string> = {
+  unknown: chalk.yellow,
+  mempool: chalk.cyan,
+  included: chalk.cyan,
+  irreversible: chalk.green,
+  expired: chalk.red
+}
+
+const txGetCmd = new Command('get')
+  .description('Look up a transaction: status, block, signers and operations')
+  .argument('<txid>', 'Transaction id')
+  .action(async (id: string) => {
+    const txId = parseTxId(id)
+    const spinner = createSpinner('Looking up transaction...').start()
+    try {
+      const client = await getClient({ requireConfig: false })
+      const lookup = await lookupTransaction(client, txId)
+      const signers = lookup.transaction ? await describeSigners(client, lookup.transaction) : []
+      spinner.stop()
+
+      if (isJsonMode()) {
+        printResult({ ...lookup, signers })
+        return
+      }
+
+      console.log(`Transaction ${txId}`)
+      console.log(`  Status: ${STATUS_COLORS[lookup.status](lookup.status)}`)
+      if (lookup.block_num) {
+        console.log(`  Block: ${lookup.block_num}${lookup.trx_num !== undefined ? ` (position ${lookup.trx_num})` : ''}`)
+      }
+      if (!lookup.transaction) {
+        if (lookup.status === 'unknown') {
+          console.log(chalk.dim('  Not found: the node does not know this transaction, or keeps no account history'))
+        }
+        return
+      }
+      console.log(`  Expiration: ${lookup.transaction.expiration} UTC`)
+      console.log('  Signers:')
+      for (const { key, accounts } of signers) {
+        console.log(`    ${key}${accounts.length > 0 ? ` ${chalk.dim(`(${accounts.map((name) => `@${name}`).join(', ')})`)}` : ''}`)
+      }
+      console.log('  Operations:')
+      lookup.transaction.operations.forEach((op, index) => {
+        console.log(`    [${index}] ${chalk.bold(toOperationTuple(op)[0])} ${formatOperation(op)}`)
+      })
+    } catch (error: any) {
+      fail(error, spinner)
+    }
+  })
+
+const txOpsCmd = new Command('ops')
+  .description('List the operations of an included transaction, with the virtual operations it produced')
+  .argument('<txid>', 'Transaction id')
+  .action(async (id: string) => {
+    const txId = parseTxId(id)
+    const spinner = createSpinner('Looking up transaction...').start()
+    try {
+      const client = await getClient({ requireConfig: false })
+      const lookup = await lookupTransaction(client, txId)
+      if (!lookup.block_num) {
+        throw new CliError('ERROR', `Transaction ${txId} is not in a block (status: ${lookup.status})`, { tx_id: txId, status: lookup.status })
+      }
+
+      spinner.text = `Fetching operations in block ${lookup.block_num}...`
+      const result: any = unwrapResult(await client.call('account_history_api', 'get_ops_in_block', {
+        block_num: lookup.block_num,
+        only_virtual: false,
+        include_reversible: true
+      }))
+      const operations = (result?.ops ?? [])
+        .filter((entry: any) => entry.trx_id === txId)
+        .map((entry: any) => {
+          const [type, value] = toOperationTuple(entry.op)
+          return { type, virtual: Boolean(entry.virtual_op), op_in_trx: entry.op_in_trx, timestamp: entry.timestamp, value }
+        })
+      spinner.stop()
+
+      if (isJsonMode()) {
+        printResult({ tx_id: txId, status: lookup.status, block_num: lookup.block_num, operations })
+        return
+      }
+
+      console.log(`Transaction ${txId} in block ${lookup.block_num} (${STATUS_COLORS[lookup.status](lookup.status)})`)
+      for (const op of operations) {
+        const tag = op.virtual ? chalk.dim(' (virtual)') : ''
+        console.log(`  ${chalk.bold(op.type)}${tag} ${formatOperation([op.type, op.value])}`)
+      }
+    } catch (error: any) {
+      fail(error, spinner)
+    }
+  })
+
+txCommand.addCommand(txGetCmd)
+txCommand.addCommand(txOpsCmd)
+txCommand.addCommand(txSignCmd)
+txCommand.addCommand(txAddSignatureCmd)
+txCommand.addCommand(txSignersCmd)
+txCommand.addCommand(addWaitOptions(txSendCmd))
@@ -1,11 +1,12 @@
 import { Command } from 'commander'
-import chalk from 'chalk'
-import ora from 'ora'
 import crypto from 'crypto'
 import { readFileSync } from 'fs'
 import { PrivateKey } from 'hive-tx'
 import { getConfig } from '../config.js'
-import { getAccountName } from '../utils.js'
+import { configError } from '../errors.js'
+import { resolveKey } from '../keystore.js'
+import { fail, printResult } from '../output.js'
+import { createSpinner, getAccountName } from '../utils.js'
 
 const DEFAULT_IMAGE_HOST = 'https://images.hive.blog'
 
@@ -42,23 +43,27 @@ const uploadImageCmd = new Command('upload')
     const account = getAccountName(config, options)
 
     if (!account) {
-      console.error(chalk.red('Account not specified. Use --account, HIVE_ACCOUNT, or configure with "hive config"'))
-      process.exit(1)
+      fail(configError('Account not specified. Use --account, HIVE_ACCOUNT, or configure with "hive config"'))
     }
 
-    if (!config?.postingKey) {
-      console.error(chalk.red('Posting key not configured. Run "hive config" or set HIVE_POSTING_KEY.'))
-      process.exit(1)
+    let postingKey: string | undefined
+    try {
+      postingKey = config ? await resolveKey(config, 'posting') : undefined
+    } catch (error: any) {
+      fail(configError(error.message))
+    }
+
+    if (!postingKey) {
+      fail(configError('Posting key not configured. Run "hive config" or set HIVE_POSTING_KEY.'))
     }
 
-    const spinner = ora('Uploading image...').start()
+    const spinner = createSpinner('Uploading image...').start()
     try {
-      const result = await uploadImage(options.file, account, config.postingKey)
+      const result = await uploadImage(options.file, account, postingKey)
       spinner.succeed('Image uploaded successfully')
-      console.log(JSON.stringify(result, null, 2))
+      printResult(result)
     } catch (error: any) {
-      spinner.fail(error.message)
-      process.exit(1)
+      fail(error, spinner)
     }
   })
 
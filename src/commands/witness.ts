@@ -0,0 +1,284 @@
+import { Command } from 'commander'
+import chalk from 'chalk'
+import { getConfig } from '../config.js'
+import { CliError, usageError } from '../errors.js'
+import type { HiveClient } from '../hive-client.js'
+import { fail, printResult, unwrapResponse } from '../output.js'
+import { formatDuration } from '../rc.js'
+import type { HiveOperation } from '../types.js'
+import {
+  addWaitOptions,
+  broadcastOperations,
+  createSpinner,
+  getAccount,
+  getClient,
+  getProps,
+  getWaitOptions,
+  isJsonMode,
+  parseAssetAmount,
+  requireAccountName,
+  vestsToHp
+} from '../utils.js'
+
+// Witness votes an account can cast (HIVE_MAX_ACCOUNT_WITNESS_VOTES)
+const MAX_WITNESS_VOTES = 30
+
+// Signing key of a witness that has shut down
+const DISABLED_SIGNING_KEY = 'STM1111111111111111111111111111111114T1Anm'
+
+// by_vote_name sorts by votes, highest first; start above any possible vote count
+const TOP_OF_VOTE_INDEX = ['9223372036854775807', '']
+
+async function findWitness(client: HiveClient, name: string): Promise<any | null> {
+  const result: any = unwrapResponse(await client.call('database_api', 'find_witnesses', { owners: [name] }))
+  return result?.witnesses?.[0] ?? null
+}
+
+/** Witness vote weight, which the chain counts in VESTS, in millions of HP. */
+function formatVotes(votes: string | number, props: any): string {
+  const mhp = vestsToHp(Number(votes) / 1e6, props) / 1e6
+  return `${mhp.toLocaleString(undefined, { maximumFractionDigits: 1, minimumFractionDigits: 1 })}M HP`
+}
+
+/** "0.250 HBD/HIVE, 3h ago", from the witness's last published feed. */
+function formatFeed(witness: any, props: any): string {
+  const { base, quote } = witness.hbd_exchange_rate ?? {}
+  const price = parseAssetAmount(quote) ? parseAssetAmount(base) / parseAssetAmount(quote) : 0
+  if (!price) {
+    return 'no feed'
+  }
+  const age = (Date.parse(`${props.time}Z`) - Date.parse(`${witness.last_hbd_exchange_update}Z`)) / 1000
+  return `${price.toFixed(3)} HBD/HIVE, ${formatDuration(Math.max(age, 0))} ago`
+}
+
+function isDisabled(witness: any): boolean {
+  return witness.signing_key === DISABLED_SIGNING_KEY
+}
+
+const witnessCommand = new Command('witness')
+  .description('Browse witnesses and manage your witness votes')
+
+const witnessListCmd = new Command('list')
+  .description('Top witnesses by votes, with version, missed blocks and price feed')
+  .option('-l, --limit <number>', 'Number of witnesses', '30')
+  .action(async (options) => {
+    const limit = Number(options.limit)
+    if (!Number.isInteger(limit) || limit < 1 || limit > 1000) {
+      fail(usageError('--limit must be a number from 1 to 1000'))
+    }
+
+    const spinner = createSpinner('Fetching witnesses...').start()
+    try {
+      const client = await getClient({ requireConfig: false })
+      const [result, props]: any[] = await Promise.all([
+        client.call('database_api', 'list_witnesses', { start: TOP_OF_VOTE_INDEX, limit, order: 'by_vote_name' }).then(unwrapResponse),
+        getProps(client)
+      ])
+      const witnesses: any[] = result?.witnesses ?? []
+      spinner.stop()
+
+      if (isJsonMode()) {
+        printResult(witnesses.map((witness, index) => ({ rank: index + 1, ...witness })))
+        return
+      }
+
+      const width = Math.max(...witnesses.map((witness) => witness.owner.length), 7)
+      console.log(chalk.dim(`${'#'.padStart(4)}  ${'Witness'.padEnd(width)}  ${'Votes'.padStart(12)}  ${'Version'.padEnd(8)}  ${'Missed'.padStart(7)}  Feed`))
+      witnesses.forEach((witness, index) => {
+        const name = isDisabled(witness) ? chalk.dim(witness.owner.padEnd(width)) : witness.owner.padEnd(width)
+        console.log(`${String(index + 1).padStart(4)}  ${name}  ${formatVotes(witness.votes, props).padStart(12)}  ${String(witness.running_version).padEnd(8)}  ${String(witness.total_missed).padStart(7)}  ${isDisabled(witness) ? chalk.dim('disabled') : formatFeed(witness, props)}`)
+      })
+    } catch (error: any) {
+      fail(error, spinner)
+    }
+  })
+
+const witnessInfoCmd = new Command('info')
+  .description('Show a witness: votes, version, blocks, price feed and properties')
+  .argument('<name>', 'Witness account')
+  .action(async (name: string) => {
+    const spinner = createSpinner(`Fetching witness @${name}...`).start()
+    try {
+      const client = await getClient({ requireConfig: false })
+      const [witness, props] = await Promise.all([findWitness(client, name), getProps(client)])
+      if (!witness) {
+        throw usageError(`@${name} is not a witness`)
+      }
+      spinner.stop()
+
+      if (isJsonMode()) {
+        printResult(witness)
+        return
+      }
+
+      console.log(`${chalk.bold(`@${witness.owner}`)}${isDisabled(witness) ? chalk.red(' (disabled)') : ''}`)
+      console.log(`  URL: ${witness.url}`)
+      console.log(`  Votes: ${formatVotes(witness.votes, props)}`)
+      console.log(`  Version: ${witness.running_version} (hardfork vote ${witness.hardfork_version_vote} at ${witness.hardfork_time_vote})`)
+      console.log(`  Blocks missed: ${witness.total_missed}, last confirmed #${witness.last_confirmed_block_num}`)
+      console.log(`  Price feed: ${formatFeed(witness, props)}`)
+      console.log(`  Account creation fee: ${witness.props?.account_creation_fee ? parseAssetAmount(witness.props.account_creation_fee).toFixed(3) : '?'} HIVE`)
+      console.log(`  HBD interest rate: ${(witness.props?.hbd_interest_rate ?? 0) / 100}%`)
+      console.log(`  Maximum block size: ${witness.props?.maximum_block_size} bytes`)
+      console.log(`  Signing key: ${witness.signing_key}`)
+      console.log(`  Witness since: ${witness.created}`)
+    } catch (error: any) {
+      fail(error, spinner)
+    }
+  })
+
+const witnessVotesCmd = new Command('votes')
+  .description(`Witnesses an account votes for, and how many of its ${MAX_WITNESS_VOTES} votes are left`)
+  .argument('[account]', 'Account name (defaults to configured account)')
+  .action(async (name: string | undefined) => {
+    const config = await getConfig()
+    const account = name ?? requireAccountName(config, {}, 'argument')
+
+    const spinner = createSpinner(`Fetching witness votes of @${account}...`).start()
+    try {
+      const client = await getClient({ requireConfig: false })
+      const info = await getAccount(client, account)
+      spinner.stop()
+
+      const votes: string[] = info.witness_votes ?? []
+      const result = {
+        account,
+        proxy: info.proxy || null,
+        votes,
+        used: votes.length,
+        remaining: MAX_WITNESS_VOTES - votes.length
+      }
+      if (isJsonMode()) {
+        printResult(result)
+        return
+      }
+
+      if (result.proxy) {
+        console.log(chalk.yellow(`@${account} has set @${result.proxy} as proxy; the proxy's votes count instead of these.`))
+      }
+      if (votes.length === 0) {
+        console.log(`@${account} votes for no witnesses.`)
+      } else {
+        votes.forEach((witness) => console.log(`  @${witness}`))
+      }
+      console.log(chalk.dim(`${result.used} of ${MAX_WITNESS_VOTES} votes used, ${result.remaining} remaining`))
+    } catch (error: any) {
+      fail(error, spinner)
+    }
+  })
+
+function witnessVoteCommand(approve: boolean): Command {
+  return new Command(approve ? 'vote' : 'unvote')
+    .description(approve ? 'Vote for a witness' : 'Remove your vote for a witness')
+    .argument('<witness>', 'Witness account')
+    .option('--account <name>', 'Voting account (defaults to configured account)')
+    .action(async (witness: string, options) => {
+      const config = await getConfig()
+      const account = requireAccountName(config, options)
+
+      witness = witness.replace(/^@/, '')
+      const checkSpinner = createSpinner('Checking current votes...').start()
+      try {
+        const client = await getClient()
+        const [info, witnessInfo] = await Promise.all([getAccount(client, account), findWitness(client, witness)])
+        const votes: string[] = info.witness_votes ?? []
+        if (approve) {
+          if (!witnessInfo) throw usageError(`@${witness} is not a witness`)
+          if (votes.includes(witness)) throw usageError(`@${account} already votes for @${witness}`)
+          if (votes.length >= MAX_WITNESS_VOTES) {
+            const error = usageError(`@${account} already uses all ${MAX_WITNESS_VOTES} witness votes`)
+            error.hint = 'Remove one with "hive witness unvote <witness>" first'
+            throw error
+          }
+        } else if (!votes.includes(witness)) {
+          throw usageError(`@${account} does not vote for @${witness}`)
+        }
+        if (info.proxy) {
+          const error = new CliError('CHAIN', `@${account} has set @${info.proxy} as witness proxy, so it cannot vote directly`, { proxy: info.proxy })
+          error.hint = 'Clear the proxy with "hive proxy clear" first'
+          throw error
+        }
+        checkSpinner.stop()
+      } catch (error: any) {
+        fail(error, checkSpinner)
+      }
+
+      const operations: HiveOperation[] = [
+        {
+          type: 'account_witness_vote',
+          value: { account, witness, approve }
+        }
+      ]
+
+      const spinner = createSpinner(`Broadcasting witness ${approve ? 'vote' : 'unvote'}...`).start()
+      try {
+        await broadcastOperations(operations, 'active', {
+          spinner,
+          successMessage: approve ? `Voted for witness @${witness}` : `Removed vote for witness @${witness}`,
+          wait: getWaitOptions(options)
+        })
+      } catch (error: any) {
+        fail(error, spinner)
+      }
+    })
+}
+
+const witnessVoteCmd = witnessVoteCommand(true)
+const witnessUnvoteCmd = witnessVoteCommand(false)
+
+witnessCommand.addCommand(witnessListCmd)
+witnessCommand.addCommand(witnessInfoCmd)
+witnessCommand.addCommand(witnessVotesCmd)
+witnessCommand.addCommand(witnessVoteCmd)
+witnessCommand.addCommand(witnessUnvoteCmd)
+
+const proxyCommand = new Command('proxy')
+  .description('Let another account cast your witness and proposal votes')
+
+async function setProxy(proxy: string, options: any): Promise<void> {
+  const config = await getConfig()
+  const account = requireAccountName(config, options)
+  if (proxy === account) {
+    fail(usageError('An account cannot be its own proxy'))
+  }
+
+  const operations: HiveOperation[] = [
+    {
+      type: 'account_witness_proxy',
+      value: { account, proxy }
+    }
+  ]
+
+  const spinner = createSpinner(proxy ? 'Broadcasting proxy...' : 'Broadcasting proxy removal...').start()
+  try {
+    await broadcastOperations(operations, 'active', {
+      spinner,
+      successMessage: proxy ? `@${proxy} now votes for @${account}` : `Cleared the proxy of @${account}`,
+      wait: getWaitOptions(options)
+    })
+  } catch (error: any) {
+    fail(error, spinner)
+  }
+}
+
+const proxySetCmd = new Command('set')
+  .description('Set a witness proxy; your own witness votes stop counting while it is set')
+  .argument('<proxy>', 'Account that votes for you')
+  .option('--account <name>', 'Account name (defaults to configured account)')
+  .action(async (proxy: string, options) => {
+    await setProxy(proxy.replace(/^@/, ''), options)
+  })
+
+const proxyClearCmd = new Command('clear')
+  .description('Remove the witness proxy')
+  .option('--account <name>', 'Account name (defaults to configured account)')
+  .action(async (options) => {
+    await setProxy('', options)
+  })
+
+proxyCommand.addCommand(proxySetCmd)
+proxyCommand.addCommand(proxyClearCmd)
+
+;[witnessVoteCmd, witnessUnvoteCmd, proxySetCmd, proxyClearCmd].forEach(addWaitOptions)
+
+export const witnessCommands = [witnessCommand, proxyCommand]
@@ -1,12 +1,26 @@
 import { homedir } from 'os'
 import { join } from 'path'
 import fs from 'fs-extra'
-import type { Config } from './types.js'
+import { configError } from './errors.js'
+import { KEYSTORE_FIELDS, canGetKeystorePassphrase, encryptSecrets, getKeystorePassphrase, pickSecrets, unlockKeystore } from './keystore.js'
+import { RC_CHECK_MODES } from './rc.js'
+import type { Config, ConfigFile, RcCheckMode } from './types.js'
 
-const CONFIG_DIR = join(homedir(), '.hive-tx-cli')
+export const CONFIG_DIR = join(homedir(), '.hive-tx-cli')
 const CONFIG_FILE = join(CONFIG_DIR, 'config.json')
+export const DEFAULT_PROFILE = 'default'
 
-function getEnvConfig(): Partial<Config> {
+/** Whether a --rpc-timeout or HIVE_RPC_TIMEOUT value is a usable number of seconds. */
+export function isValidRpcTimeout(value: string): boolean {
+  const seconds = Number(value)
+  return Number.isFinite(seconds) && seconds > 0
+}
+
+/**
+ * Settings from HIVE_* environment variables. Throws a config error for a
+ * malformed timeout or RC check mode.
+ */
+export function getEnvConfig(): Partial<Config> {
   const envConfig: Partial<Config> = {}
 
   if (process.env.HIVE_ACCOUNT) {
@@ -21,39 +35,115 @@ function getEnvConfig(): Partial<Config> {
     envConfig.activeKey = process.env.HIVE_ACTIVE_KEY
   }
 
+  if (process.env.HIVE_NODE) {
+    envConfig.node = process.env.HIVE_NODE
+  }
+
+  if (process.env.HIVE_RPC_TIMEOUT) {
+    if (!isValidRpcTimeout(process.env.HIVE_RPC_TIMEOUT)) {
+      throw configError(`HIVE_RPC_TIMEOUT must be a positive number of seconds, got "${process.env.HIVE_RPC_TIMEOUT}"`)
+    }
+    envConfig.rpcTimeout = Number(process.env.HIVE_RPC_TIMEOUT)
+  }
+
+  if (process.env.HIVE_RC_CHECK) {
+    if (!RC_CHECK_MODES.includes(process.env.HIVE_RC_CHECK as RcCheckMode)) {
+      throw configError(`HIVE_RC_CHECK must be one of: ${RC_CHECK_MODES.join(', ')}`)
+    }
+    envConfig.rcCheck = process.env.HIVE_RC_CHECK as RcCheckMode
+  }
+
   return envConfig
 }
 
+async function readConfigFile(): Promise<ConfigFile | null> {
+  if (!(await fs.pathExists(CONFIG_FILE))) {
+    return null
+  }
+
+  const raw = await fs.readJson(CONFIG_FILE)
+  if (raw && typeof raw === 'object' && 'profiles' in raw) {
+    return raw as ConfigFile
+  }
+
+  // Single-account config written before profiles existed
+  return { activeProfile: DEFAULT_PROFILE, profiles: { [DEFAULT_PROFILE]: raw as Config } }
+}
+
+/**
+ * Name of the profile in use: --profile / HIVE_PROFILE first, then the one
+ * selected with `hive config use`.
+ */
+export async function getActiveProfileName(): Promise<string> {
+  if (process.env.HIVE_PROFILE) {
+    return process.env.HIVE_PROFILE
+  }
+
+  try {
+    const file = await readConfigFile()
+    return file?.activeProfile || DEFAULT_PROFILE
+  } catch {
+    return DEFAULT_PROFILE
+  }
+}
+
+export async function listProfiles(): Promise<{ activeProfile: string; profiles: Record<string, Config> }> {
+  const file = await readConfigFile()
+  return {
+    activeProfile: await getActiveProfileName(),
+    profiles: file?.profiles ?? {}
+  }
+}
+
+export async function setActiveProfile(name: string): Promise<void> {
+  const file = await readConfigFile()
+  if (!file?.profiles[name]) {
+    throw new Error(`Profile "${name}" does not exist. Run "hive config add ${name}" to create it.`)
+  }
+
+  await writeProfiles({ ...file, activeProfile: name })
+}
+
+export async function removeProfile(name: string): Promise<void> {
+  const file = await readConfigFile()
+  if (!file?.profiles[name]) {
+    throw new Error(`Profile "${name}" does not exist.`)
+  }
+
+  const { [name]: removed, ...profiles } = file.profiles
+  const activeProfile = file.activeProfile === name
+    ? Object.keys(profiles)[0] ?? DEFAULT_PROFILE
+    : file.activeProfile
+  await writeProfiles({ activeProfile, profiles })
+}
+
 export async function getConfig(): Promise<Config | null> {
   const envConfig = getEnvConfig()
   let fileConfig: Config | null = null
 
   try {
-    if (!(await fs.pathExists(CONFIG_FILE))) {
-      if (!envConfig.account) {
-        return null
-      }
-      return {
-        account: envConfig.account || '',
-        postingKey: envConfig.postingKey,
-        activeKey: envConfig.activeKey
-      }
-    }
-    const config = await fs.readJson(CONFIG_FILE)
-    fileConfig = config as Config
+    const file = await readConfigFile()
+    fileConfig = file?.profiles[await getActiveProfileName()] ?? null
   } catch {
+    fileConfig = null
+  }
+
+  if (!fileConfig) {
     if (!envConfig.account) {
       return null
     }
     return {
       account: envConfig.account || '',
       postingKey: envConfig.postingKey,
-      activeKey: envConfig.activeKey
+      activeKey: envConfig.activeKey,
+      node: envConfig.node,
+      rpcTimeout: envConfig.rpcTimeout,
+      rcCheck: envConfig.rcCheck
     }
   }
 
   const mergedConfig = {
-    ...(fileConfig || {}),
+    ...fileConfig,
     ...envConfig
   }
 
@@ -63,15 +153,87 @@ export async function getConfig(): Promise<Config | null> {
   } as Config
 }
 
-export async function saveConfig(config: Config): Promise<void> {
+/**
+ * Read a profile as stored in config.json, without env var overrides.
+ * Defaults to the active profile.
+ */
+export async function getStoredConfig(profile?: string): Promise<Config | null> {
+  try {
+    const file = await readConfigFile()
+    return file?.profiles[profile ?? await getActiveProfileName()] ?? null
+  } catch {
+    return null
+  }
+}
+
+export function hasPlaintextKeys(config: Config): boolean {
+  return Object.keys(pickSecrets(config)).length > 0
+}
+
+async function writeProfiles(file: ConfigFile): Promise<void> {
   await fs.ensureDir(CONFIG_DIR)
-  await fs.writeJson(CONFIG_FILE, config, { spaces: 2, mode: 0o600 })
+  await fs.writeJson(CONFIG_FILE, file, { spaces: 2, mode: 0o600 })
+}
+
+/**
+ * Store a profile in config.json as-is. The first profile written becomes the active one.
+ */
+export async function writeConfigFile(config: Config, profile?: string): Promise<void> {
+  const name = profile ?? await getActiveProfileName()
+  const file = (await readConfigFile()) ?? { activeProfile: name, profiles: {} }
+  await writeProfiles({ ...file, profiles: { ...file.profiles, [name]: config } })
+}
+
+/**
+ * Persist the config, moving private keys into the encrypted keystore unless the
+ * user opted out with `hive config unlock`. Keys already in the keystore are kept.
+ * Without a way to get the passphrase (non-interactive, HIVE_KEYSTORE_PASSPHRASE
+ * unset), plaintext keys stay as they are, with a warning on stderr.
+ */
+export async function saveConfig(config: Config, profile?: string): Promise<void> {
+  const { plaintextKeys, ...rest } = config
+  const secrets = pickSecrets(config)
+  for (const field of KEYSTORE_FIELDS) {
+    delete rest[field]
+  }
+
+  if (plaintextKeys || Object.keys(secrets).length === 0) {
+    await writeConfigFile(config, profile)
+    return
+  }
+  if (!canGetKeystorePassphrase()) {
+    console.error('⚠ No keystore passphrase available; private keys are stored in plaintext. Set HIVE_KEYSTORE_PASSPHRASE or run "hive config lock" in a terminal to encrypt them.')
+    await writeConfigFile(config, profile)
+    return
+  }
+
+  const merged = config.keystore
+    ? { ...(await unlockKeystore(config.keystore)), ...secrets }
+    : secrets
+  const passphrase = await getKeystorePassphrase({ confirm: !config.keystore })
+  const keystore = await encryptSecrets(merged, passphrase)
+  await writeConfigFile({ ...rest, keystore }, profile)
 }
 
-export async function clearConfig(): Promise<void> {
-  if (await fs.pathExists(CONFIG_FILE)) {
+/**
+ * Remove a profile's configuration, the active one by default. Other profiles are
+ * kept; the file goes away with the last of them.
+ */
+export async function clearConfig(profile?: string): Promise<void> {
+  const file = await readConfigFile()
+  if (!file) {
+    return
+  }
+
+  const name = profile ?? await getActiveProfileName()
+  const { [name]: removed, ...profiles } = file.profiles
+  if (Object.keys(profiles).length === 0) {
     await fs.remove(CONFIG_FILE)
+    return
   }
+
+  const activeProfile = file.activeProfile === name ? Object.keys(profiles)[0]! : file.activeProfile
+  await writeProfiles({ activeProfile, profiles })
 }
 
 export async function hasConfig(): Promise<boolean> {
@@ -0,0 +1,81 @@
+import { classifyChainError } from './chain-errors.js'
+
+/**
+ * Failure categories. Each maps to its own process exit code so scripts can
+ * branch on the kind of failure without parsing messages.
+ */
+export type ErrorCode = 'ERROR' | 'USAGE' | 'CONFIG' | 'RPC' | 'CHAIN' | 'TIMEOUT'
+
+export const EXIT_CODES: Record<ErrorCode, number> = {
+  ERROR: 1,
+  USAGE: 2,
+  CONFIG: 3,
+  RPC: 4,
+  CHAIN: 5,
+  TIMEOUT: 6
+}
+
+export class CliError extends Error {
+  /** Suggested fix, shown under the message in human output. */
+  hint?: string
+
+  constructor(readonly code: ErrorCode, message: string, readonly details?: unknown) {
+    super(message)
+    this.name = 'CliError'
+  }
+
+  get exitCode(): number {
+    return EXIT_CODES[this.code]
+  }
+}
+
+/** Invalid arguments or input files. */
+export function usageError(message: string, details?: unknown): CliError {
+  return new CliError('USAGE', message, details)
+}
+
+/** Missing or unusable configuration: no account, key not set, keystore locked. */
+export function configError(message: string, details?: unknown): CliError {
+  return new CliError('CONFIG', message, details)
+}
+
+/** Error envelope from a node, or a failure to reach one. */
+export function rpcError(error: any): CliError {
+  return new CliError('RPC', error?.message ?? JSON.stringify(error), error)
+}
+
+/**
+ * Node rejected a transaction. Known rejections get a readable message and a
+ * suggested fix; `details` keeps the node's own text.
+ */
+export function chainError(error: any): CliError {
+  const nodeMessage: string = error?.message ?? JSON.stringify(error)
+  const info = classifyChainError(nodeMessage)
+  if (!info) {
+    return new CliError('CHAIN', nodeMessage, { reason: 'unknown', node_message: nodeMessage, data: error?.data })
+  }
+
+  const { message, ...rest } = info
+  const cliError = new CliError('CHAIN', message, { ...rest, node_message: nodeMessage, data: error?.data })
+  cliError.hint = info.suggestion
+  return cliError
+}
+
+/** Error from the transport (network, timeout, HTTP status), as opposed to a JSON-RPC error. */
+export class NodeError extends Error {
+  constructor(readonly url: string, readonly reason: string) {
+    super(`${url}: ${reason}`)
+    this.name = 'NodeError'
+  }
+}
+
+/** Anything thrown while running a command, as a CliError. */
+export function toCliError(error: unknown): CliError {
+  if (error instanceof CliError) {
+    return error
+  }
+  if (error instanceof NodeError) {
+    return new CliError('RPC', error.message)
+  }
+  return new CliError('ERROR', (error as any)?.message ?? String(error))
+}
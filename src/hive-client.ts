@@ -1,64 +1,349 @@
-import { PrivateKey, Transaction, call, config as hiveConfig } from 'hive-tx';
-import type { Config, HiveOperation } from './types.js';
+import { PrivateKey, Signature, Transaction, config as hiveConfig } from 'hive-tx';
+import { CliError, chainError, configError, rpcError } from './errors.js';
+import { resolveKey } from './keystore.js';
+import { getRequiredAuthorities, type AuthorityRole } from './operations.js';
+import { estimateRcCost, getRcMana, rcShortageHint, secondsUntilMana } from './rc.js';
+import { NodePool, parseNodeList } from './node-pool.js';
+import type { Config, HiveOperation, HiveTransaction } from './types.js';
 
-const DEFAULT_NODE = 'https://api.hive.blog';
 const DEFAULT_CHAIN_ID = 'beeab0de00000000000000000000000000000000000000000000000000000000';
 
+// Warn when a transaction leaves less than this share of the manabar
+const LOW_RC_PERCENT = 5n;
+
+export interface RcCheck {
+  account: string;
+  estimated: bigint;
+  current: bigint;
+  max: bigint;
+  sufficient: boolean;
+  waitSeconds: number;
+}
+
+/** Bytes fc packs an unsigned integer into, 7 bits per byte. */
+export function varintSize(value: number): number {
+  let size = 1;
+  while (value >= 0x80) {
+    value = Math.floor(value / 0x80);
+    size += 1;
+  }
+  return size;
+}
+
+export function missingKeyMessage(role: AuthorityRole): string {
+  return role === 'owner'
+    ? `owner key is not configured. Run 'hive config set ownerKey <wif>'.`
+    : `${role} key is not configured. Run 'hive config' or set HIVE_${role.toUpperCase()}_KEY.`;
+}
+
+export interface WaitForTransactionOptions {
+  /** Wait until the block is irreversible instead of just included. */
+  irreversible?: boolean;
+  timeoutMs?: number;
+  onProgress?: (status: string) => void;
+}
+
+/** The node's broadcast result together with the id of the transaction. */
+export interface BroadcastResult {
+  tx_id: string;
+  [key: string]: unknown;
+}
+
+export interface Confirmation {
+  tx_id: string;
+  status: 'included' | 'irreversible';
+  block_num: number;
+  /** Position of the transaction in its block. */
+  trx_num: number;
+  confirmed_at: string;
+  confirmation_seconds: number;
+}
+
+// One pool per node list so the sticky node survives across clients in a process
+const pools = new Map<string, NodePool>();
+
+function getNodePool(config: Config): NodePool {
+  const nodes = parseNodeList(config.node);
+  const key = `${nodes.join(',')}|${config.rpcTimeout ?? ''}`;
+  let pool = pools.get(key);
+  if (!pool) {
+    pool = new NodePool(nodes, { timeoutSeconds: config.rpcTimeout });
+    pools.set(key, pool);
+  }
+  return pool;
+}
+
 export class HiveClient {
   private config: Config;
+  readonly nodes: NodePool;
+  /** Receives non-fatal warnings such as low RC; defaults to stderr. */
+  onWarning: (message: string) => void = (message) => console.error(`⚠ ${message}`);
 
   constructor(config: Config) {
     this.config = config;
-    // Set up hive-tx config
-    hiveConfig.node = config.node || DEFAULT_NODE;
+    this.nodes = getNodePool(config);
+    // hive-tx is only used for signing and hashing; all RPC goes through the node pool
     hiveConfig.chain_id = config.chainId || DEFAULT_CHAIN_ID;
   }
 
+  /**
+   * JSON-RPC call with node failover. Resolves with the JSON-RPC envelope,
+   * including `error` when the node rejected the call.
+   */
   async call(api: string, method: string, params: any = []): Promise<unknown> {
-    const fullMethod = `${api}.${method}`;
-    const response = await call(fullMethod, params);
-    return response;
+    return await this.nodes.request(`${api}.${method}`, params);
   }
 
   /**
-   * Poll until a transaction appears in a block or the timeout expires.
-   * Hive produces a block every ~3 seconds; allow up to 30s by default.
+   * Poll until a transaction appears in a block, and with `irreversible` until
+   * the last irreversible block has passed that block. Hive produces a block
+   * every ~3 seconds, so the polling interval matches.
    */
-  async waitForTransaction(txId: string, timeoutMs = 30_000): Promise<unknown> {
+  async waitForTransaction(txId: string, options: WaitForTransactionOptions = {}): Promise<Confirmation> {
+    const { irreversible = false, timeoutMs = 30_000, onProgress } = options;
     const pollInterval = 3_000;
-    const deadline = Date.now() + timeoutMs;
+    const started = Date.now();
+    const deadline = started + timeoutMs;
+    let included: { block_num: number; trx_num: number } | null = null;
+
     while (Date.now() < deadline) {
       try {
         const res: any = await this.call('condenser_api', 'get_transaction', [txId]);
         const tx = res?.result ?? res;
-        if (tx?.block_num) return tx;
+        // A fork can move the transaction to another block before it is irreversible
+        included = tx?.block_num ? { block_num: tx.block_num, trx_num: tx.transaction_num ?? 0 } : null;
+
+        if (included && !irreversible) {
+          return this.confirmation(txId, included, false, started);
+        }
+        if (included) {
+          const props: any = await this.call('condenser_api', 'get_dynamic_global_properties', []);
+          const lib: number = props.result.last_irreversible_block_num;
+          if (lib >= included.block_num) {
+            return this.confirmation(txId, included, true, started);
+          }
+          onProgress?.(`Included in #${included.block_num}, ${included.block_num - lib} blocks to LIB`);
+        }
       } catch {
         // not confirmed yet — keep polling
       }
       await new Promise(resolve => setTimeout(resolve, pollInterval));
     }
-    throw new Error(`Transaction ${txId} not confirmed within ${timeoutMs / 1000}s`);
+
+    const seconds = timeoutMs / 1000;
+    if (included) {
+      throw new CliError('TIMEOUT', `Transaction ${txId} was included in block ${included.block_num} but not irreversible within ${seconds}s`, { tx_id: txId, ...included });
+    }
+    throw new CliError('TIMEOUT', `Transaction ${txId} not confirmed within ${seconds}s`, { tx_id: txId });
+  }
+
+  private confirmation(txId: string, included: { block_num: number; trx_num: number }, irreversible: boolean, started: number): Confirmation {
+    return {
+      tx_id: txId,
+      status: irreversible ? 'irreversible' : 'included',
+      ...included,
+      confirmed_at: new Date().toISOString(),
+      confirmation_seconds: Math.round((Date.now() - started) / 100) / 10
+    };
   }
 
-  async broadcast(operations: HiveOperation[], keyType: 'posting' | 'active' = 'posting'): Promise<unknown> {
-    const key = keyType === 'active' ? this.config.activeKey : this.config.postingKey;
-    
+  /**
+   * Build an unsigned transaction with the current reference block.
+   * Expiration is in seconds; Hive accepts up to one hour.
+   */
+  async createTransaction(operations: HiveOperation[], expiration = 60): Promise<HiveTransaction> {
+    const response: any = await this.call('condenser_api', 'get_dynamic_global_properties', []);
+    if (response?.error) {
+      throw rpcError(response.error);
+    }
+    const props = response.result;
+    // Expiration is relative to chain time so a skewed local clock cannot produce an expired transaction
+    const chainTime = Date.parse(`${props.time}Z`);
+    return {
+      ref_block_num: props.head_block_number & 0xffff,
+      ref_block_prefix: Buffer.from(props.head_block_id, 'hex').readUInt32LE(4),
+      expiration: new Date(chainTime + expiration * 1000).toISOString().slice(0, -5),
+      operations: operations.map(op => [op.type, op.value]),
+      extensions: []
+    };
+  }
+
+  /**
+   * Sign with the configured key for the role. Does not touch the network.
+   */
+  async signTransaction(transaction: HiveTransaction, keyType: AuthorityRole = 'posting'): Promise<HiveTransaction> {
+    const key = await resolveKey(this.config, keyType);
+
     if (!key) {
-      const envVar = keyType === 'active' ? 'HIVE_ACTIVE_KEY' : 'HIVE_POSTING_KEY';
-      throw new Error(`${keyType} key is not configured. Run 'hive config' or set ${envVar}.`);
+      throw configError(missingKeyMessage(keyType));
     }
 
+    return this.signTransactionWithKey(transaction, key);
+  }
+
+  signTransactionWithKey(transaction: HiveTransaction, wif: string): HiveTransaction {
+    const privateKey = PrivateKey.fromString(wif);
+    const { signatures = [], ...unsigned } = transaction;
+    const tx = new Transaction(unsigned);
+    const signed = tx.sign(privateKey) as HiveTransaction;
+    return { ...signed, signatures: [...signatures, ...(signed.signatures ?? [])] };
+  }
+
+  getTransactionId(transaction: HiveTransaction): string {
+    const { signatures, ...unsigned } = transaction;
+    return new Transaction(unsigned).digest().txId;
+  }
+
+  /**
+   * Public keys that produced the transaction's signatures.
+   */
+  getSignerKeys(transaction: HiveTransaction): string[] {
+    const { signatures = [], ...unsigned } = transaction;
+    const { digest } = new Transaction(unsigned).digest();
+    return signatures.map(signature => Signature.from(signature).getPublicKey(digest).toString());
+  }
+
+  /**
+   * Serialized size in bytes as the chain sees it, including the signatures the
+   * transaction will carry (65 bytes each) and their count.
+   */
+  async getTransactionSize(transaction: HiveTransaction, signatureCount = 1): Promise<number> {
+    const response: any = await this.call('condenser_api', 'get_transaction_hex', [{ ...transaction, signatures: [] }]);
+    if (response?.error) {
+      throw rpcError(response.error);
+    }
+    const hex: string = response?.result ?? response;
+    // The node packs an empty signature list; count the varint for the real number instead
+    return hex.length / 2 - varintSize(0) + varintSize(signatureCount) + 65 * signatureCount;
+  }
+
+  /**
+   * Broadcast an already signed transaction.
+   */
+  async sendTransaction(transaction: HiveTransaction): Promise<BroadcastResult> {
+    if (!transaction.signatures?.length) {
+      throw new Error('Transaction is not signed');
+    }
+
+    const response: any = await this.call('condenser_api', 'broadcast_transaction', [transaction]);
+    if (response?.error) {
+      const error = chainError(response.error);
+      await this.explainRcShortage(error);
+      throw error;
+    }
+
+    return { ...response?.result, tx_id: this.getTransactionId(transaction) };
+  }
+
+  /**
+   * Replace the generic advice for an RC rejection with how long the account
+   * has to wait, using its current manabar.
+   */
+  private async explainRcShortage(error: CliError): Promise<void> {
+    const details = error.details as any;
+    if (details?.reason !== 'insufficient_rc' || !details.account) {
+      return;
+    }
+    try {
+      const mana = await getRcMana(this, details.account);
+      if (!mana) return;
+      const seconds = secondsUntilMana(mana, BigInt(details.rc.needed));
+      details.wait_seconds = Number.isFinite(seconds) ? seconds : null;
+      error.hint = rcShortageHint(seconds);
+    } catch {
+      // Keep the generic suggestion
+    }
+  }
+
+  /**
+   * Estimated RC cost of the transaction against the current mana of the
+   * account that pays for it (the first required authority, as in the RC
+   * plugin). Null when the node has no RC data.
+   */
+  async checkRc(transaction: HiveTransaction, sizeBytes?: number): Promise<RcCheck | null> {
+    let account = this.config.account;
+    try {
+      account = getRequiredAuthorities(transaction.operations)[0]?.account ?? account;
+    } catch {
+      // Unknown operation; fall back to the configured account
+    }
+    if (!account) {
+      return null;
+    }
+
+    const size = sizeBytes ?? await this.getTransactionSize(transaction);
+    const [estimate, mana] = await Promise.all([
+      estimateRcCost(this, transaction, size),
+      getRcMana(this, account)
+    ]);
+    if (!mana || estimate.total === 0n) {
+      return null;
+    }
+
+    return {
+      account,
+      estimated: estimate.total,
+      current: mana.current,
+      max: mana.max,
+      sufficient: mana.current >= estimate.total,
+      waitSeconds: secondsUntilMana(mana, estimate.total)
+    };
+  }
+
+  /**
+   * Pre-flight RC check before a broadcast. Depending on `rcCheck` it warns
+   * (default) or aborts when the payer looks short of mana, and warns when
+   * the transaction leaves the manabar nearly empty. The cost is an estimate,
+   * so by default the chain has the final say. A node without RC data skips
+   * the check.
+   */
+  async preflightRc(transaction: HiveTransaction): Promise<void> {
+    const mode = this.config.rcCheck ?? 'warn';
+    if (mode === 'off') {
+      return;
+    }
+
+    let check: RcCheck | null;
+    try {
+      check = await this.checkRc(transaction);
+    } catch {
+      return;
+    }
+    if (!check) {
+      return;
+    }
+
+    const { account, estimated, current, max, waitSeconds } = check;
+    if (!check.sufficient) {
+      const message = `@${account} has ${current.toLocaleString()} RC but this transaction needs about ${estimated.toLocaleString()}`;
+      if (mode === 'warn') {
+        this.onWarning(`${message}; broadcasting anyway. ${rcShortageHint(waitSeconds)}`);
+        return;
+      }
+      const error = new CliError('CHAIN', `${message}. Not broadcasting.`, {
+        reason: 'insufficient_rc',
+        account,
+        rc: { current: current.toString(), needed: estimated.toString() },
+        wait_seconds: Number.isFinite(waitSeconds) ? waitSeconds : null
+      });
+      error.hint = `${rcShortageHint(waitSeconds)}; use --rc-check warn to broadcast anyway`;
+      throw error;
+    }
+
+    const remaining = current - estimated;
+    if (remaining * 100n < max * LOW_RC_PERCENT) {
+      this.onWarning(`@${account} will have ${Number(remaining * 10000n / max) / 100}% RC left after this transaction`);
+    }
+  }
+
+  async broadcast(operations: HiveOperation[], keyType: AuthorityRole = 'posting'): Promise<BroadcastResult> {
     if (!this.config.account) {
-      throw new Error('Account is not configured. Run "hive config" or set HIVE_ACCOUNT.');
+      throw configError('Account is not configured. Run "hive config" or set HIVE_ACCOUNT.');
     }
 
-    const privateKey = (PrivateKey as any).fromString(key);
-    
-    const tx = new Transaction();
-    await tx.create(operations.map(op => [op.type, op.value]));
-    tx.sign(privateKey);
-    
-    const result = await tx.broadcast();
-    return result;
+    const transaction = await this.createTransaction(operations);
+    await this.preflightRc(transaction);
+    const signed = await this.signTransaction(transaction, keyType);
+    return await this.sendTransaction(signed);
   }
 }
@@ -1,34 +1,121 @@
 #!/usr/bin/env node
-import { Command } from 'commander';
+import { Command, CommanderError } from 'commander';
 import chalk from 'chalk';
-import { getConfig } from './config.js';
-import { configCommand } from './commands/config.js';
+import { getActiveProfileName, getConfig, getEnvConfig, isValidRpcTimeout, listProfiles } from './config.js';
+import { configCommand, migratePlaintextConfig } from './commands/config.js';
 import { queryCommands } from './commands/query.js';
+import { txCommand } from './commands/tx.js';
+import { batchCommand } from './commands/batch.js';
+import { nodesCommand } from './commands/nodes.js';
+import { historyCommand } from './commands/history.js';
+import { exportCommand } from './commands/export.js';
+import { streamCommand } from './commands/stream.js';
 import { broadcastCommands } from './commands/broadcast.js';
+import { witnessCommands } from './commands/witness.js';
+import { proposalsCommand } from './commands/proposals.js';
+import { powerCommands } from './commands/power.js';
+import { savingsCommand } from './commands/savings.js';
 import { uploadImageCommands } from './commands/upload-image.js';
-import { packageJson } from './utils.js';
+import { getConfiguredPublicKey, hasKey, keyField } from './keystore.js';
+import { describeKeyVerification, getAccountAuthorities, verifyKey, type AccountAuthorities, type KeyRole } from './keys.js';
+import { DEFAULT_NODES, parseNodeList } from './node-pool.js';
+import { EXIT_CODES, configError, usageError } from './errors.js';
+import { RC_CHECK_MODES } from './rc.js';
+import { fail, finish, printResult, reserveStdoutForEnvelope, setCommandName } from './output.js';
+import { createSpinner, getClient, isJsonMode, packageJson } from './utils.js';
+import type { Config, KeystoreField } from './types.js';
 
 const program = new Command();
 
+function formatKeyStatus(config: Config, field: KeystoreField, notSet: string): string {
+  if (config[field]) {
+    return chalk.green('✔ Set');
+  }
+  if (config.keystore?.fields.includes(field)) {
+    return chalk.green('✔ Set (encrypted)');
+  }
+  return notSet;
+}
+
 program
   .name('hive')
   .description('CLI wrapper for the Hive blockchain API')
   .version(packageJson.version)
-  .option('-n, --node <url>', 'Hive node URL')
+  .option('-n, --node <url>', 'Hive node URL, or a comma-separated list to fail over between')
+  .option('--rpc-timeout <seconds>', 'Timeout for each RPC request before trying the next node')
+  .option('--rc-check <mode>', 'When RC looks too low before broadcasting: warn (default), abort or off')
   .option('-a, --account <name>', 'Hive account name')
-  .hook('preAction', async (command) => {
+  .option('-P, --profile <name>', 'Configuration profile to use')
+  .option('--unsigned <file>', 'Write the unsigned transaction to a file instead of broadcasting')
+  .option('--sign-only <file>', 'Write the signed transaction to a file instead of broadcasting')
+  .option('--dry-run', 'Show the operations, key role, size and RC cost without signing or broadcasting')
+  .hook('preAction', async (command, actionCommand) => {
     const opts = command.opts();
-    const config = await getConfig();
-    
+
+    const path: string[] = [];
+    for (let current: Command | null = actionCommand; current && current !== command; current = current.parent) {
+      path.unshift(current.name());
+    }
+    setCommandName(path.join(' '));
+
+    if (isJsonMode()) {
+      reserveStdoutForEnvelope();
+    }
+
+    if (opts.profile) {
+      const { profiles } = await listProfiles();
+      if (!profiles[opts.profile]) {
+        fail(configError(`Profile "${opts.profile}" does not exist. Run "hive config list" to see available profiles.`));
+      }
+      process.env.HIVE_PROFILE = opts.profile;
+    }
     if (opts.node) {
       process.env.HIVE_NODE = opts.node;
     }
+    if (opts.rpcTimeout) {
+      if (!isValidRpcTimeout(opts.rpcTimeout)) {
+        fail(usageError('--rpc-timeout must be a positive number of seconds'));
+      }
+      process.env.HIVE_RPC_TIMEOUT = opts.rpcTimeout;
+    }
+    if (opts.rcCheck) {
+      if (!RC_CHECK_MODES.includes(opts.rcCheck)) {
+        fail(usageError(`--rc-check must be one of: ${RC_CHECK_MODES.join(', ')}`));
+      }
+      process.env.HIVE_RC_CHECK = opts.rcCheck;
+    }
     if (opts.account) {
       process.env.HIVE_ACCOUNT = opts.account;
     }
+    if (opts.unsigned && opts.signOnly) {
+      fail(usageError('Use either --unsigned or --sign-only, not both.'));
+    }
+    if (opts.dryRun) {
+      process.env.HIVE_DRY_RUN = '1';
+    }
+    if (opts.unsigned) {
+      process.env.HIVE_TX_UNSIGNED_FILE = opts.unsigned;
+    }
+    if (opts.signOnly) {
+      process.env.HIVE_TX_SIGNED_FILE = opts.signOnly;
+    }
+    // Reject malformed HIVE_* settings before the command runs
+    try {
+      getEnvConfig();
+    } catch (error: any) {
+      fail(error);
+    }
+
+    await migratePlaintextConfig();
   });
 
 program.addCommand(configCommand);
+program.addCommand(txCommand);
+program.addCommand(batchCommand);
+program.addCommand(nodesCommand);
+program.addCommand(historyCommand);
+program.addCommand(exportCommand);
+program.addCommand(streamCommand);
 
 for (const cmd of queryCommands) {
   program.addCommand(cmd);
@@ -38,6 +125,18 @@ for (const cmd of broadcastCommands) {
   program.addCommand(cmd);
 }
 
+for (const cmd of witnessCommands) {
+  program.addCommand(cmd);
+}
+
+program.addCommand(proposalsCommand);
+
+for (const cmd of powerCommands) {
+  program.addCommand(cmd);
+}
+
+program.addCommand(savingsCommand);
+
 for (const cmd of uploadImageCommands) {
   program.addCommand(cmd);
 }
@@ -45,19 +144,84 @@ for (const cmd of uploadImageCommands) {
 program
   .command('status')
   .description('Show configuration status')
-  .action(async () => {
+  .option('--no-verify', 'Skip checking the configured keys against on-chain authorities')
+  .action(async (options) => {
     const config = await getConfig();
     if (!config) {
-      console.log(chalk.yellow('⚠ No configuration found'));
-      console.log(chalk.dim('Run "hive config" to set up your account'));
-      process.exit(1);
+      fail(configError('No configuration found. Run "hive config" to set up your account.'));
+    }
+
+    let authorities: AccountAuthorities | null = null;
+    if (options.verify && config.account) {
+      const spinner = createSpinner('Verifying keys against on-chain authorities...').start();
+      try {
+        const client = await getClient();
+        authorities = await getAccountAuthorities(client, config.account);
+        spinner.stop();
+      } catch (error: any) {
+        spinner.fail(`Could not verify keys: ${error.message}`);
+      }
+    }
+
+    const verification = (role: KeyRole): string => {
+      if (!authorities || !hasKey(config, role)) {
+        return '';
+      }
+      const publicKey = getConfiguredPublicKey(config, role);
+      if (!publicKey) {
+        return chalk.dim(' · not verified (keystore has no public keys; re-run "hive config lock" after "hive config unlock")');
+      }
+      return ` · ${describeKeyVerification(verifyKey(authorities, role, publicKey), config.account)}`;
+    };
+
+    if (isJsonMode()) {
+      const roles: KeyRole[] = ['posting', 'active', 'memo', 'owner'];
+      printResult({
+        profile: await getActiveProfileName(),
+        account: config.account || null,
+        nodes: config.node ? parseNodeList(config.node) : DEFAULT_NODES,
+        keys: Object.fromEntries(roles.map((role) => {
+          const publicKey = hasKey(config, role) ? getConfiguredPublicKey(config, role) : undefined;
+          return [role, {
+            set: hasKey(config, role),
+            encrypted: Boolean(config.keystore?.fields.includes(keyField(role))),
+            verification: authorities && publicKey ? verifyKey(authorities, role, publicKey).status : null
+          }];
+        }))
+      });
+      return;
     }
-    
+
     console.log(chalk.green('✔ Configuration found'));
+    console.log(`  Profile: ${chalk.bold(await getActiveProfileName())}`);
     console.log(`  Account: ${chalk.bold(config.account || 'Not set')}`);
-    console.log(`  Node: ${config.node || 'Default (api.hive.blog)'}`);
-    console.log(`  Posting Key: ${config.postingKey ? chalk.green('✔ Set') : chalk.red('✗ Not set')}`);
-    console.log(`  Active Key: ${config.activeKey ? chalk.green('✔ Set') : chalk.yellow('○ Not set')}`);
+    console.log(`  Node: ${config.node ? parseNodeList(config.node).join(', ') : `Default (${DEFAULT_NODES.length} public nodes with failover)`}`);
+    console.log(`  Posting Key: ${formatKeyStatus(config, 'postingKey', chalk.red('✗ Not set'))}${verification('posting')}`);
+    console.log(`  Active Key: ${formatKeyStatus(config, 'activeKey', chalk.yellow('○ Not set'))}${verification('active')}`);
+    console.log(`  Memo Key: ${formatKeyStatus(config, 'memoKey', chalk.dim('○ Not set'))}${verification('memo')}`);
+    if (hasKey(config, 'owner')) {
+      console.log(`  Owner Key: ${formatKeyStatus(config, 'ownerKey', '')}${verification('owner')}`);
+    }
   });
 
-program.parse();
+function applyExitOverride(command: Command): void {
+  command.exitOverride();
+  command.commands.forEach(applyExitOverride);
+}
+
+applyExitOverride(program);
+
+program.parseAsync().then(finish).catch((error) => {
+  if (error instanceof CommanderError) {
+    // --help and --version exit through here as well
+    if (error.exitCode === 0) {
+      process.exit(0);
+    }
+    // Commander has already printed the message
+    if (!isJsonMode()) {
+      process.exit(EXIT_CODES.USAGE);
+    }
+    fail(usageError(error.message.replace(/^error: /, '')));
+  }
+  fail(error);
+});
@@ -0,0 +1,233 @@
+import chalk from 'chalk'
+import { PrivateKey } from 'hive-tx'
+import type { HiveClient } from './hive-client.js'
+import type { AuthorityRole, RequiredAuthority } from './operations.js'
+import { unwrapResult } from './utils.js'
+
+export const KEY_ROLES = ['owner', 'active', 'posting', 'memo'] as const
+export type KeyRole = typeof KEY_ROLES[number]
+
+export interface DerivedKey {
+  role: KeyRole
+  privateKey: string
+  publicKey: string
+}
+
+export interface Authority {
+  weight_threshold: number
+  account_auths: [string, number][]
+  key_auths: [string, number][]
+}
+
+export interface AccountAuthorities {
+  owner: Authority
+  active: Authority
+  posting: Authority
+  memoKey: string
+}
+
+/**
+ * Derive the role keys from a master password, the same way the wallets do
+ * (sha256 of account + role + password).
+ */
+export function deriveKeysFromMaster(account: string, password: string): DerivedKey[] {
+  return KEY_ROLES.map((role) => {
+    const privateKey = PrivateKey.fromLogin(account, password, role)
+    return {
+      role,
+      privateKey: privateKey.toString(),
+      publicKey: privateKey.createPublic().toString()
+    }
+  })
+}
+
+export function publicKeyFromWif(wif: string): string {
+  return PrivateKey.fromString(wif).createPublic().toString()
+}
+
+export function isWif(value: string): boolean {
+  try {
+    publicKeyFromWif(value)
+    return true
+  } catch {
+    return false
+  }
+}
+
+export async function getAuthoritiesForAccounts(client: HiveClient, accounts: string[]): Promise<Map<string, AccountAuthorities>> {
+  const response = await client.call('condenser_api', 'get_accounts', [accounts])
+  const result = unwrapResult(response) as any
+  const authorities = new Map<string, AccountAuthorities>()
+
+  for (const accountInfo of Array.isArray(result) ? result : []) {
+    authorities.set(accountInfo.name, {
+      owner: accountInfo.owner,
+      active: accountInfo.active,
+      posting: accountInfo.posting,
+      memoKey: accountInfo.memo_key
+    })
+  }
+
+  return authorities
+}
+
+export async function getAccountAuthorities(client: HiveClient, account: string): Promise<AccountAuthorities> {
+  const authorities = (await getAuthoritiesForAccounts(client, [account])).get(account)
+
+  if (!authorities) {
+    throw new Error(`Account @${account} not found`)
+  }
+
+  return authorities
+}
+
+/** Whether the public key is listed in the on-chain authority (or is the memo key) for the role. */
+export function isKeyInAuthority(authorities: AccountAuthorities, role: KeyRole, publicKey: string): boolean {
+  if (role === 'memo') {
+    return authorities.memoKey === publicKey
+  }
+  return authorities[role].key_auths.some(([key]) => key === publicKey)
+}
+
+export type KeyStatus = 'valid' | 'weighted' | 'other-role' | 'invalid'
+
+export interface KeyVerification {
+  role: KeyRole
+  publicKey: string
+  status: KeyStatus
+  weight?: number
+  threshold?: number
+  matchedRole?: KeyRole
+}
+
+/**
+ * Check a public key against the account's authority for the role. A key that
+ * is listed but whose weight is below the threshold can only sign together
+ * with other keys of a multi-key authority.
+ */
+export function verifyKey(authorities: AccountAuthorities, role: KeyRole, publicKey: string): KeyVerification {
+  if (role === 'memo') {
+    if (authorities.memoKey === publicKey) {
+      return { role, publicKey, status: 'valid' }
+    }
+  } else {
+    const authority = authorities[role]
+    const entry = authority.key_auths.find(([key]) => key === publicKey)
+    if (entry) {
+      const [, weight] = entry
+      return weight >= authority.weight_threshold
+        ? { role, publicKey, status: 'valid', weight, threshold: authority.weight_threshold }
+        : { role, publicKey, status: 'weighted', weight, threshold: authority.weight_threshold }
+    }
+  }
+
+  const matchedRole = KEY_ROLES.find((other) => other !== role && isKeyInAuthority(authorities, other, publicKey))
+  if (matchedRole) {
+    return { role, publicKey, status: 'other-role', matchedRole }
+  }
+
+  return { role, publicKey, status: 'invalid' }
+}
+
+export function describeKeyVerification(verification: KeyVerification, account: string): string {
+  switch (verification.status) {
+    case 'valid':
+      return chalk.green(`✔ matches the on-chain ${verification.role} authority`)
+    case 'weighted':
+      return chalk.yellow(`⚠ weight ${verification.weight}/${verification.threshold} in the ${verification.role} authority; needs signatures from other keys to reach the threshold`)
+    case 'other-role':
+      return chalk.red(`✗ this is the ${verification.matchedRole} key of @${account}, not the ${verification.role} key`)
+    case 'invalid':
+      return chalk.red(`✗ not a key of @${account}`)
+  }
+}
+
+export interface AuthorityStatus {
+  account: string
+  role: AuthorityRole
+  /** Authority that provided the weight; owner and active also satisfy lower roles. */
+  satisfiedBy: AuthorityRole
+  threshold: number
+  weight: number
+  satisfied: boolean
+  keys: { publicKey: string; weight: number; signed: boolean }[]
+  accounts: { account: string; weight: number; signed: boolean }[]
+}
+
+// Higher authorities can stand in for lower ones
+const SATISFYING_ROLES: Record<AuthorityRole, AuthorityRole[]> = {
+  posting: ['posting', 'active', 'owner'],
+  active: ['active', 'owner'],
+  owner: ['owner']
+}
+
+function keyWeight(authority: Authority, signerKeys: Set<string>): number {
+  return authority.key_auths
+    .filter(([key]) => signerKeys.has(key))
+    .reduce((sum, [, weight]) => sum + weight, 0)
+}
+
+function measureAuthority(
+  account: string,
+  role: AuthorityRole,
+  authorities: Map<string, AccountAuthorities>,
+  signerKeys: Set<string>
+): Omit<AuthorityStatus, 'role' | 'satisfiedBy'> {
+  const authority = authorities.get(account)?.[role]
+  if (!authority) {
+    return { account, threshold: 1, weight: 0, satisfied: false, keys: [], accounts: [] }
+  }
+
+  const keys = authority.key_auths.map(([publicKey, weight]) => ({ publicKey, weight, signed: signerKeys.has(publicKey) }))
+  // Account auths are satisfied by the delegated account's own keys (one level deep)
+  const accounts = authority.account_auths.map(([name, weight]) => {
+    const delegated = authorities.get(name)
+    const signed = SATISFYING_ROLES[role].some((candidate) => {
+      const delegatedAuthority = delegated?.[candidate]
+      return Boolean(delegatedAuthority && keyWeight(delegatedAuthority, signerKeys) >= delegatedAuthority.weight_threshold)
+    })
+    return { account: name, weight, signed }
+  })
+
+  const weight = [...keys, ...accounts].filter((entry) => entry.signed).reduce((sum, entry) => sum + entry.weight, 0)
+  return { account, threshold: authority.weight_threshold, weight, satisfied: weight >= authority.weight_threshold, keys, accounts }
+}
+
+/**
+ * Compare the keys that signed a transaction against the on-chain weights of
+ * every authority the transaction requires.
+ */
+export async function evaluateSignatures(
+  client: HiveClient,
+  required: RequiredAuthority[],
+  signerKeys: string[]
+): Promise<AuthorityStatus[]> {
+  const signers = new Set(signerKeys)
+  const accounts = [...new Set(required.map(({ account }) => account))]
+  const authorities = await getAuthoritiesForAccounts(client, accounts)
+
+  const delegated = new Set<string>()
+  for (const accountAuthorities of authorities.values()) {
+    for (const role of ['owner', 'active', 'posting'] as const) {
+      accountAuthorities[role].account_auths.forEach(([name]) => delegated.add(name))
+    }
+  }
+  const missing = [...delegated].filter((name) => !authorities.has(name))
+  if (missing.length > 0) {
+    for (const [name, value] of await getAuthoritiesForAccounts(client, missing)) {
+      authorities.set(name, value)
+    }
+  }
+
+  return required.map(({ account, role }) => {
+    let best: AuthorityStatus | null = null
+    for (const candidate of SATISFYING_ROLES[role]) {
+      const status = { role, satisfiedBy: candidate, ...measureAuthority(account, candidate, authorities, signers) }
+      if (status.satisfied) {
+        return status
+      }
+      best ??= status
+    }
+    return best!
+  })
+}
@@ -0,0 +1,206 @@
+import { createCipheriv, createDecipheriv, randomBytes, scrypt } from 'crypto'
+import inquirer from 'inquirer'
+import { configError } from './errors.js'
+import { publicKeyFromWif, type KeyRole } from './keys.js'
+import type { Config, EncryptedKeystore, KeystoreField } from './types.js'
+import { withSpinnerPaused } from './utils.js'
+
+export const KEYSTORE_FIELDS: KeystoreField[] = ['postingKey', 'activeKey', 'memoKey', 'ownerKey']
+
+const SCRYPT_PARAMS = { n: 2 ** 15, r: 8, p: 1 }
+const SCRYPT_MAXMEM = 64 * 1024 * 1024
+const KEY_LENGTH = 32
+
+export type KeystoreSecrets = Partial<Record<KeystoreField, string>>
+
+let cachedPassphrase: string | undefined
+const unlockedKeystores = new Map<string, KeystoreSecrets>()
+
+function deriveKey(passphrase: string, salt: Buffer, params: { n: number; r: number; p: number }): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    scrypt(passphrase, salt, KEY_LENGTH, { N: params.n, r: params.r, p: params.p, maxmem: SCRYPT_MAXMEM }, (error, key) => {
+      if (error) reject(error)
+      else resolve(key)
+    })
+  })
+}
+
+export function pickSecrets(config: Partial<Config>): KeystoreSecrets {
+  const secrets: KeystoreSecrets = {}
+  for (const field of KEYSTORE_FIELDS) {
+    if (config[field]) {
+      secrets[field] = config[field]
+    }
+  }
+  return secrets
+}
+
+export async function encryptSecrets(secrets: KeystoreSecrets, passphrase: string): Promise<EncryptedKeystore> {
+  const salt = randomBytes(16)
+  const iv = randomBytes(12)
+  const key = await deriveKey(passphrase, salt, SCRYPT_PARAMS)
+  const cipher = createCipheriv('aes-256-gcm', key, iv)
+  const ciphertext = Buffer.concat([cipher.update(JSON.stringify(secrets), 'utf8'), cipher.final()])
+
+  return {
+    version: 1,
+    kdf: 'scrypt',
+    kdfParams: { ...SCRYPT_PARAMS, salt: salt.toString('hex') },
+    cipher: 'aes-256-gcm',
+    iv: iv.toString('hex'),
+    authTag: cipher.getAuthTag().toString('hex'),
+    ciphertext: ciphertext.toString('hex'),
+    fields: KEYSTORE_FIELDS.filter((field) => Boolean(secrets[field])),
+    publicKeys: derivePublicKeys(secrets)
+  }
+}
+
+function derivePublicKeys(secrets: KeystoreSecrets): Partial<Record<KeystoreField, string>> {
+  const publicKeys: Partial<Record<KeystoreField, string>> = {}
+  for (const field of KEYSTORE_FIELDS) {
+    const wif = secrets[field]
+    if (!wif) continue
+    try {
+      publicKeys[field] = publicKeyFromWif(wif)
+    } catch {
+      // not a valid WIF; it will fail at signing time with a clearer error
+    }
+  }
+  return publicKeys
+}
+
+export async function decryptSecrets(keystore: EncryptedKeystore, passphrase: string): Promise<KeystoreSecrets> {
+  if (keystore.version !== 1 || keystore.kdf !== 'scrypt' || keystore.cipher !== 'aes-256-gcm') {
+    throw configError('Unsupported keystore format in config.json')
+  }
+
+  const { salt, ...params } = keystore.kdfParams
+  const key = await deriveKey(passphrase, Buffer.from(salt, 'hex'), params)
+  const decipher = createDecipheriv('aes-256-gcm', key, Buffer.from(keystore.iv, 'hex'))
+  decipher.setAuthTag(Buffer.from(keystore.authTag, 'hex'))
+
+  try {
+    const plaintext = Buffer.concat([decipher.update(Buffer.from(keystore.ciphertext, 'hex')), decipher.final()])
+    return JSON.parse(plaintext.toString('utf8')) as KeystoreSecrets
+  } catch {
+    throw configError('Incorrect keystore passphrase (or the keystore has been tampered with)')
+  }
+}
+
+/**
+ * Whether a passphrase can be had without failing: from HIVE_KEYSTORE_PASSPHRASE,
+ * an earlier prompt, or a new prompt on an interactive terminal.
+ */
+export function canGetKeystorePassphrase(): boolean {
+  return Boolean(process.env.HIVE_KEYSTORE_PASSPHRASE || cachedPassphrase || process.stdin.isTTY)
+}
+
+/**
+ * Resolve the keystore passphrase from HIVE_KEYSTORE_PASSPHRASE or an interactive prompt.
+ * With `confirm`, the user chooses a new passphrase and has to type it twice.
+ */
+export async function getKeystorePassphrase(options: { confirm?: boolean } = {}): Promise<string> {
+  if (process.env.HIVE_KEYSTORE_PASSPHRASE) {
+    return process.env.HIVE_KEYSTORE_PASSPHRASE
+  }
+
+  if (cachedPassphrase && !options.confirm) {
+    return cachedPassphrase
+  }
+
+  if (!process.stdin.isTTY) {
+    throw configError('Keystore is locked. Set HIVE_KEYSTORE_PASSPHRASE to unlock it non-interactively.')
+  }
+
+  const passphrase = await withSpinnerPaused(async () => {
+    const { passphrase } = await inquirer.prompt([
+      {
+        type: 'password',
+        name: 'passphrase',
+        mask: '*',
+        message: options.confirm ? 'New keystore passphrase:' : 'Keystore passphrase:',
+        validate: (input: string) => input.length > 0 || 'Passphrase is required'
+      }
+    ])
+
+    if (options.confirm) {
+      await inquirer.prompt([
+        {
+          type: 'password',
+          name: 'repeat',
+          mask: '*',
+          message: 'Repeat passphrase:',
+          validate: (input: string) => input === passphrase || 'Passphrases do not match'
+        }
+      ])
+    }
+
+    return passphrase as string
+  })
+
+  cachedPassphrase = passphrase
+  return passphrase
+}
+
+export async function unlockKeystore(keystore: EncryptedKeystore): Promise<KeystoreSecrets> {
+  const unlocked = unlockedKeystores.get(keystore.ciphertext)
+  if (unlocked) {
+    return unlocked
+  }
+
+  let secrets: KeystoreSecrets
+  try {
+    secrets = await decryptSecrets(keystore, await getKeystorePassphrase())
+  } catch (error) {
+    // Profiles may use different passphrases; ask again instead of reusing the cached one
+    if (!cachedPassphrase) {
+      throw error
+    }
+    cachedPassphrase = undefined
+    secrets = await decryptSecrets(keystore, await getKeystorePassphrase())
+  }
+
+  unlockedKeystores.set(keystore.ciphertext, secrets)
+  return secrets
+}
+
+export function keyField(role: KeyRole): KeystoreField {
+  return `${role}Key`
+}
+
+/** Whether a key is available for the role, either in plaintext or inside the keystore. */
+export function hasKey(config: Config | null, role: KeyRole): boolean {
+  const field = keyField(role)
+  return Boolean(config?.[field] || config?.keystore?.fields.includes(field))
+}
+
+/** Return the private key for a role, unlocking the keystore when the key is stored encrypted. */
+export async function resolveKey(config: Config, role: KeyRole): Promise<string | undefined> {
+  const field = keyField(role)
+  if (config[field]) {
+    return config[field]
+  }
+
+  if (config.keystore?.fields.includes(field)) {
+    const secrets = await unlockKeystore(config.keystore)
+    return secrets[field]
+  }
+
+  return undefined
+}
+
+/**
+ * Public key of the configured key for a role, without unlocking the keystore.
+ */
+export function getConfiguredPublicKey(config: Config, role: KeyRole): string | undefined {
+  const field = keyField(role)
+  const wif = config[field]
+  if (wif) {
+    try {
+      return publicKeyFromWif(wif)
+    } catch {
+      return undefined
+    }
+  }
+  return config.keystore?.publicKeys?.[field]
+}
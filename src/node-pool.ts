@@ -0,0 +1,279 @@
+import { join } from 'path'
+import fs from 'fs-extra'
+import { CONFIG_DIR } from './config.js'
+import { CliError, NodeError } from './errors.js'
+
+export const DEFAULT_NODES = [
+  'https://api.hive.blog',
+  'https://api.deathwing.me',
+  'https://api.openhive.network',
+  'https://techcoderx.com',
+  'https://rpc.mahdiyari.info'
+]
+
+export const DEFAULT_TIMEOUT_SECONDS = 10
+// A node whose head block is older than this is serving stale data
+const MAX_HEAD_AGE_SECONDS = 60
+// How long a health check result (and the sticky choice) is trusted
+const HEALTH_TTL_MS = 10 * 60 * 1000
+const MAX_BACKOFF_MS = 4000
+
+export interface NodeHealth {
+  url: string
+  ok: boolean
+  latencyMs?: number
+  headBlock?: number
+  headAgeSeconds?: number
+  failures: number
+  lastError?: string
+  checkedAt: number
+}
+
+interface HealthFile {
+  preferred?: string
+  nodes: Record<string, NodeHealth>
+}
+
+export interface NodePoolOptions {
+  timeoutSeconds?: number
+  retries?: number
+}
+
+/** Split a `node` setting into URLs; a comma-separated value configures several nodes. */
+export function parseNodeList(value: string | undefined): string[] {
+  return (value ?? '')
+    .split(',')
+    .map((url) => url.trim().replace(/\/+$/, ''))
+    .filter(Boolean)
+}
+
+// Resolved lazily: config.js imports this module indirectly, so CONFIG_DIR is not set yet at load time
+function healthFilePath(): string {
+  return join(CONFIG_DIR, 'node-health.json')
+}
+
+async function readHealthFile(): Promise<HealthFile> {
+  try {
+    const file = await fs.readJson(healthFilePath())
+    return { nodes: {}, ...file }
+  } catch {
+    return { nodes: {} }
+  }
+}
+
+function isFresh(health: NodeHealth | undefined): boolean {
+  return Boolean(health && Date.now() - health.checkedAt < HEALTH_TTL_MS)
+}
+
+function headAgeSeconds(props: any): number | undefined {
+  if (typeof props?.time !== 'string') {
+    return undefined
+  }
+  return (Date.now() - Date.parse(`${props.time}Z`)) / 1000
+}
+
+/**
+ * Single JSON-RPC request to one node. Transport problems throw NodeError;
+ * the JSON-RPC envelope (including `error`) is returned as-is.
+ */
+export async function rpcRequest(url: string, method: string, params: unknown, timeoutMs: number): Promise<any> {
+  let response: Response
+  try {
+    response = await fetch(url, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ jsonrpc: '2.0', method, params, id: 1 }),
+      signal: AbortSignal.timeout(timeoutMs)
+    })
+  } catch (error: any) {
+    const timedOut = error?.name === 'TimeoutError' || error?.name === 'AbortError'
+    throw new NodeError(url, timedOut ? `timed out after ${timeoutMs / 1000}s` : (error?.cause?.message ?? error.message))
+  }
+
+  if (!response.ok) {
+    throw new NodeError(url, `HTTP ${response.status}`)
+  }
+
+  try {
+    return await response.json()
+  } catch {
+    throw new NodeError(url, 'invalid JSON response')
+  }
+}
+
+function isDuplicateTransaction(error: any): boolean {
+  return Boolean(error) && String(error.message).includes('Duplicate transaction check failed')
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms))
+}
+
+/**
+ * JSON-RPC over a list of nodes. Requests stick to the healthiest node and
+ * fail over to the next one on transport errors, timeouts or a stale head
+ * block, with exponential backoff once every node has been tried. JSON-RPC
+ * errors are returned to the caller untouched: another node would give the
+ * same answer. Health results are cached on disk so the next invocation
+ * starts on the node that worked last.
+ */
+export class NodePool {
+  readonly nodes: string[]
+  readonly timeoutMs: number
+  private readonly retries: number
+  private health: HealthFile | null = null
+  private current: string | null = null
+  private verified = new Set<string>()
+
+  constructor(nodes: string[], options: NodePoolOptions = {}) {
+    this.nodes = nodes.length > 0 ? nodes : DEFAULT_NODES
+    this.timeoutMs = (options.timeoutSeconds || DEFAULT_TIMEOUT_SECONDS) * 1000
+    this.retries = options.retries ?? Math.max(2, this.nodes.length * 2 - 1)
+  }
+
+  /** Node requests currently go to. */
+  async getCurrentNode(): Promise<string> {
+    if (!this.current) {
+      this.current = this.rank(await this.loadHealth())[0]!
+    }
+    return this.current
+  }
+
+  async request(method: string, params: unknown): Promise<any> {
+    let lastError: Error | null = null
+
+    for (let attempt = 0; attempt <= this.retries; attempt++) {
+      const url = await this.getCurrentNode()
+      try {
+        if (!this.verified.has(url) && !isFresh(this.health?.nodes[url])) {
+          await this.verify(url)
+        }
+        const started = Date.now()
+        const response = await this.post(url, method, params)
+
+        const age = /get_dynamic_global_properties$/.test(method) ? headAgeSeconds(response?.result) : undefined
+        if (age !== undefined && age > MAX_HEAD_AGE_SECONDS) {
+          throw new NodeError(url, `head block is ${Math.round(age)}s old`)
+        }
+
+        this.verified.add(url)
+        await this.record(url, { ok: true, latencyMs: Date.now() - started })
+        // A broadcast that failed in transport may still have reached the chain, in
+        // which case the retry is rejected as a duplicate of the first attempt
+        if (lastError && /broadcast_transaction$/.test(method) && isDuplicateTransaction(response?.error)) {
+          const { error, ...rest } = response
+          return { ...rest, result: {} }
+        }
+        return response
+      } catch (error: any) {
+        if (!(error instanceof NodeError)) {
+          throw error
+        }
+        lastError = error
+        await this.record(url, { ok: false, lastError: error.reason })
+        this.current = this.next(url)
+        // Only back off once a full round over the nodes has failed
+        const round = Math.floor((attempt + 1) / this.nodes.length)
+        if (round > 0 && attempt < this.retries) {
+          await sleep(Math.min(250 * 2 ** round, MAX_BACKOFF_MS))
+        }
+      }
+    }
+
+    throw new CliError('RPC', `All Hive nodes failed (${this.nodes.join(', ')}). Last error: ${lastError?.message}`)
+  }
+
+  /**
+   * Probe a single node: latency, head block and how far it lags behind the
+   * wall clock. Never throws; failures are reported in the result.
+   */
+  async check(url: string): Promise<NodeHealth> {
+    const started = Date.now()
+    try {
+      const response = await this.post(url, 'condenser_api.get_dynamic_global_properties', [])
+      if (response?.error) {
+        throw new NodeError(url, response.error.message ?? 'RPC error')
+      }
+      const age = headAgeSeconds(response?.result)
+      const ok = age !== undefined && age <= MAX_HEAD_AGE_SECONDS
+      return {
+        url,
+        ok,
+        latencyMs: Date.now() - started,
+        headBlock: response.result.head_block_number,
+        headAgeSeconds: age,
+        failures: 0,
+        lastError: ok ? undefined : `head block is ${Math.round(age ?? 0)}s old`,
+        checkedAt: Date.now()
+      }
+    } catch (error: any) {
+      return { url, ok: false, failures: 1, lastError: error instanceof NodeError ? error.reason : error.message, checkedAt: Date.now() }
+    }
+  }
+
+  private async verify(url: string): Promise<void> {
+    const { failures, ...health } = await this.check(url)
+    if (!health.ok) {
+      // Recorded by the caller together with the failover
+      throw new NodeError(url, health.lastError ?? 'health check failed')
+    }
+    await this.record(url, health)
+    this.verified.add(url)
+  }
+
+  private async post(url: string, method: string, params: unknown): Promise<any> {
+    return await rpcRequest(url, method, params, this.timeoutMs)
+  }
+
+  /** Healthy nodes first (sticky preference, then latency), failing nodes last. */
+  private rank(health: HealthFile): string[] {
+    const score = (url: string): number => {
+      const entry = isFresh(health.nodes[url]) ? health.nodes[url] : undefined
+      if (!entry) return 1
+      if (!entry.ok) return 2 + entry.failures
+      return url === health.preferred ? -1 : 0
+    }
+    const latency = (url: string): number => health.nodes[url]?.latencyMs ?? Number.MAX_SAFE_INTEGER
+    return [...this.nodes].sort((a, b) => score(a) - score(b) || latency(a) - latency(b) || this.nodes.indexOf(a) - this.nodes.indexOf(b))
+  }
+
+  private next(url: string): string {
+    const ranked = this.rank(this.health ?? { nodes: {} })
+    const index = ranked.indexOf(url)
+    return ranked[(index + 1) % ranked.length]!
+  }
+
+  private async loadHealth(): Promise<HealthFile> {
+    this.health ??= await readHealthFile()
+    return this.health
+  }
+
+  private async record(url: string, update: Partial<NodeHealth> & { ok: boolean }): Promise<void> {
+    const health = await this.loadHealth()
+    const previous = health.nodes[url]
+    // Successful requests only touch the cache when something changes
+    const unchanged = update.ok && previous?.ok && isFresh(previous) && health.preferred === url
+    health.nodes[url] = {
+      ...previous,
+      ...update,
+      url,
+      failures: update.ok === false ? (previous?.failures ?? 0) + 1 : 0,
+      checkedAt: unchanged ? previous.checkedAt : Date.now()
+    }
+    if (unchanged) {
+      return
+    }
+    if (update.ok) {
+      health.preferred = url
+    } else if (health.preferred === url) {
+      delete health.preferred
+    }
+
+    try {
+      await fs.ensureDir(CONFIG_DIR)
+      await fs.writeJson(healthFilePath(), health, { spaces: 2 })
+    } catch {
+      // The cache is an optimisation; a read-only home directory must not break requests
+    }
+  }
+}
@@ -0,0 +1,126 @@
+import { normalizeOperationName } from './operations.js'
+import { parseAssetExact } from './utils.js'
+
+/**
+ * One-line, human-readable descriptions of operations for listings (tx,
+ * history, blocks). Accepts both API shapes: condenser `[name, body]` with
+ * string assets, and appbase `{type: 'transfer_operation', value}` with NAI
+ * assets.
+ */
+
+type Body = Record<string, any>
+
+/** Operation as [name, body] with the `_operation` suffix removed. */
+export function toOperationTuple(op: any): [string, Body] {
+  if (Array.isArray(op)) {
+    return [normalizeOperationName(String(op[0])), op[1] ?? {}]
+  }
+  return [normalizeOperationName(String(op?.type)), op?.value ?? {}]
+}
+
+/** An asset as "1.000 HIVE", from the string form or a NAI object. */
+export function formatAsset(asset: any): string {
+  if (typeof asset === 'string') {
+    return asset
+  }
+  if (!asset || typeof asset !== 'object') {
+    return String(asset)
+  }
+  const { amount, symbol } = parseAssetExact(asset)
+  return `${amount} ${symbol}`
+}
+
+function isZero(asset: any): boolean {
+  return /^-?0(\.0+)? /.test(formatAsset(asset))
+}
+
+/** "1.000 HIVE, 0.500 HBD", skipping zero amounts. */
+function assets(...values: any[]): string {
+  const nonZero = values.filter((value) => value !== undefined && !isZero(value)).map(formatAsset)
+  return nonZero.length > 0 ? nonZero.join(', ') : formatAsset(values[0])
+}
+
+function memo(text: unknown): string {
+  if (typeof text !== 'string' || text === '') return ''
+  if (text.startsWith('#')) return ' (encrypted memo)'
+  return ` memo: "${text.length > 60 ? `${text.slice(0, 57)}...` : text}"`
+}
+
+const post = (author: string, permlink: string) => `@${author}/${permlink}`
+
+const FORMATTERS: Record<string, (body: Body) => string> = {
+  vote: (b) => b.weight === 0
+    ? `@${b.voter} removed their vote on ${post(b.author, b.permlink)}`
+    : `@${b.voter} voted ${b.weight / 100}% on ${post(b.author, b.permlink)}`,
+  comment: (b) => b.parent_author
+    ? `@${b.author} replied to ${post(b.parent_author, b.parent_permlink)} (${b.permlink})`
+    : `@${b.author} posted "${b.title}" (${post(b.author, b.permlink)})`,
+  delete_comment: (b) => `@${b.author} deleted ${post(b.author, b.permlink)}`,
+  comment_options: (b) => `@${b.author} set payout options on ${post(b.author, b.permlink)}`,
+  transfer: (b) => `@${b.from} sent ${formatAsset(b.amount)} to @${b.to}${memo(b.memo)}`,
+  recurrent_transfer: (b) => `@${b.from} sends ${formatAsset(b.amount)} to @${b.to} every ${b.recurrence}h, ${b.executions} times${memo(b.memo)}`,
+  transfer_to_vesting: (b) => `@${b.from} powered up ${formatAsset(b.amount)}${b.to && b.to !== b.from ? ` to @${b.to}` : ''}`,
+  withdraw_vesting: (b) => isZero(b.vesting_shares)
+    ? `@${b.account} stopped their power down`
+    : `@${b.account} started a power down of ${formatAsset(b.vesting_shares)}`,
+  set_withdraw_vesting_route: (b) => `@${b.from_account} routes ${b.percent / 100}% of power downs to @${b.to_account}${b.auto_vest ? ' as HP' : ''}`,
+  delegate_vesting_shares: (b) => isZero(b.vesting_shares)
+    ? `@${b.delegator} removed their delegation to @${b.delegatee}`
+    : `@${b.delegator} delegated ${formatAsset(b.vesting_shares)} to @${b.delegatee}`,
+  transfer_to_savings: (b) => `@${b.from} moved ${formatAsset(b.amount)} to savings${b.to !== b.from ? ` of @${b.to}` : ''}${memo(b.memo)}`,
+  transfer_from_savings: (b) => `@${b.from} started withdrawing ${formatAsset(b.amount)} from savings${b.to !== b.from ? ` to @${b.to}` : ''} (request ${b.request_id})`,
+  cancel_transfer_from_savings: (b) => `@${b.from} cancelled savings withdrawal ${b.request_id}`,
+  claim_reward_balance: (b) => `@${b.account} claimed ${assets(b.reward_hive, b.reward_hbd, b.reward_vests)}`,
+  custom_json: (b) => {
+    const signers = [...(b.required_auths ?? []), ...(b.required_posting_auths ?? [])].map((name: string) => `@${name}`).join(', ')
+    const json = typeof b.json === 'string' && b.json.length > 80 ? `${b.json.slice(0, 77)}...` : b.json
+    return `${signers} ${b.id}: ${json}`
+  },
+  account_witness_vote: (b) => `@${b.account} ${b.approve ? 'voted for' : 'removed their vote for'} witness @${b.witness}`,
+  account_witness_proxy: (b) => b.proxy ? `@${b.account} set @${b.proxy} as witness proxy` : `@${b.account} cleared their witness proxy`,
+  update_proposal_votes: (b) => `@${b.voter} ${b.approve ? 'approved' : 'removed approval of'} proposal${b.proposal_ids.length > 1 ? 's' : ''} ${b.proposal_ids.map((id: number) => `#${id}`).join(', ')}`,
+  create_proposal: (b) => `@${b.creator} proposed "${b.subject}" paying ${formatAsset(b.daily_pay)}/day to @${b.receiver}`,
+  remove_proposal: (b) => `@${b.proposal_owner} removed proposal${b.proposal_ids.length > 1 ? 's' : ''} ${b.proposal_ids.map((id: number) => `#${id}`).join(', ')}`,
+  convert: (b) => `@${b.owner} started converting ${formatAsset(b.amount)} (request ${b.requestid})`,
+  collateralized_convert: (b) => `@${b.owner} started converting ${formatAsset(b.amount)} with collateral (request ${b.requestid})`,
+  limit_order_create: (b) => `@${b.owner} offers ${formatAsset(b.amount_to_sell)} for at least ${formatAsset(b.min_to_receive)} (order ${b.orderid})`,
+  limit_order_cancel: (b) => `@${b.owner} cancelled order ${b.orderid}`,
+  account_update: (b) => `@${b.account} updated their account`,
+  account_update2: (b) => `@${b.account} updated their ${b.owner || b.active || b.posting ? 'keys' : 'profile'}`,
+  claim_account: (b) => `@${b.creator} claimed an account creation token`,
+  create_claimed_account: (b) => `@${b.creator} created @${b.new_account_name}`,
+  account_create: (b) => `@${b.creator} created @${b.new_account_name} for ${formatAsset(b.fee)}`,
+  feed_publish: (b) => `@${b.publisher} published price feed ${formatAsset(b.exchange_rate?.base)} per ${formatAsset(b.exchange_rate?.quote)}`,
+
+  // Virtual operations
+  author_reward: (b) => `@${b.author} earned ${assets(b.hbd_payout, b.hive_payout, b.vesting_payout)} for ${post(b.author, b.permlink)}`,
+  curation_reward: (b) => `@${b.curator} earned ${formatAsset(b.reward)} curating ${post(b.comment_author ?? b.author, b.comment_permlink ?? b.permlink)}`,
+  comment_benefactor_reward: (b) => `@${b.benefactor} earned ${assets(b.hbd_payout, b.hive_payout, b.vesting_payout)} as beneficiary of ${post(b.author, b.permlink)}`,
+  producer_reward: (b) => `@${b.producer} earned ${formatAsset(b.vesting_shares)} for producing a block`,
+  interest: (b) => `@${b.owner} earned ${formatAsset(b.interest)} interest`,
+  fill_order: (b) => `@${b.current_owner} paid ${formatAsset(b.current_pays)} to @${b.open_owner} for ${formatAsset(b.open_pays)} (orders ${b.current_orderid}/${b.open_orderid})`,
+  fill_vesting_withdraw: (b) => `@${b.from_account} powered down ${formatAsset(b.withdrawn)} into ${formatAsset(b.deposited)}${b.to_account !== b.from_account ? ` for @${b.to_account}` : ''}`,
+  fill_transfer_from_savings: (b) => `@${b.from} received ${formatAsset(b.amount)} from savings${b.to !== b.from ? ` at @${b.to}` : ''} (request ${b.request_id})`,
+  fill_convert_request: (b) => `@${b.owner} converted ${formatAsset(b.amount_in)} into ${formatAsset(b.amount_out)}`,
+  fill_collateralized_convert_request: (b) => `@${b.owner} converted ${formatAsset(b.amount_in)} into ${formatAsset(b.amount_out)}`,
+  transfer_to_vesting_completed: (b) => `@${b.to_account} received ${formatAsset(b.vesting_shares_received)} for ${formatAsset(b.hive_vested)}`,
+  return_vesting_delegation: (b) => `@${b.account} got back ${formatAsset(b.vesting_shares)} of undelegated HP`,
+  fill_recurrent_transfer: (b) => `@${b.from} sent ${formatAsset(b.amount)} to @${b.to} (recurrent, ${b.remaining_executions} left)${memo(b.memo)}`,
+  proposal_pay: (b) => `@${b.receiver} received ${formatAsset(b.payment)} from proposal #${b.proposal_id}`,
+  comment_reward: (b) => `${post(b.author, b.permlink)} paid out ${formatAsset(b.payout)}`
+}
+
+/** Description of an operation, e.g. "@alice sent 1.000 HIVE to @bob". */
+export function formatOperation(op: any): string {
+  const [name, body] = toOperationTuple(op)
+  const formatter = FORMATTERS[name]
+  if (formatter) {
+    try {
+      return formatter(body)
+    } catch {
+      // Unexpected shape; fall back to the raw body
+    }
+  }
+  const json = JSON.stringify(body)
+  return json.length > 120 ? `${json.slice(0, 117)}...` : json
+}
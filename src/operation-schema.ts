@@ -0,0 +1,500 @@
+import { usageError } from './errors.js'
+import { normalizeOperationName } from './operations.js'
+import type { HiveOperation } from './types.js'
+
+/**
+ * Structural checks for operations before they are serialized, so a typo is
+ * reported as `ops[2].value.amount: …` instead of a serializer error. Rules
+ * follow hived's validate() for each operation; anything that needs chain
+ * state (balances, existing posts) is left to the node.
+ */
+
+export interface ValidationIssue {
+  path: string
+  message: string
+}
+
+type Check = (value: any, path: string) => ValidationIssue[]
+
+interface OperationSchema {
+  fields: Record<string, Check>
+  /** Checks that span several fields. */
+  refine?: (body: any, path: string) => ValidationIssue[]
+  /** Accept fields the schema does not list (obsolete or free-form operations). */
+  open?: boolean
+}
+
+const issue = (path: string, message: string): ValidationIssue[] => [{ path, message }]
+
+const ASSET_PRECISION: Record<string, number> = { HIVE: 3, HBD: 3, VESTS: 6, STEEM: 3, SBD: 3, TESTS: 3, TBD: 3 }
+const NAI_SYMBOLS: Record<string, string> = { '@@000000021': 'HIVE', '@@000000013': 'HBD', '@@000000037': 'VESTS' }
+// Legacy and testnet symbols are the same asset on the wire
+const SYMBOL_ALIASES: Record<string, string> = { STEEM: 'HIVE', SBD: 'HBD', TESTS: 'HIVE', TBD: 'HBD' }
+
+/** Why a name is not a valid Hive account name, or null when it is. */
+export function accountNameError(name: string): string | null {
+  if (name.length < 3 || name.length > 16) {
+    return 'must be 3 to 16 characters'
+  }
+  for (const segment of name.split('.')) {
+    if (segment.length < 3) {
+      return 'each dot-separated part must be at least 3 characters'
+    }
+    if (!/^[a-z][a-z0-9-]*[a-z0-9]$/.test(segment)) {
+      return 'may only contain lowercase letters, digits, dots and hyphens, and each part must start with a letter'
+    }
+    if (segment.includes('--')) {
+      return 'may not contain two hyphens in a row'
+    }
+  }
+  return null
+}
+
+const account: Check = (value, path) => {
+  if (typeof value !== 'string') {
+    return issue(path, 'expected an account name')
+  }
+  const error = accountNameError(value)
+  return error ? issue(path, `"${value}" is not a valid account name: ${error}`) : []
+}
+
+// parent_author of a top-level post, the vesting target "to self", an empty proxy
+const accountOrEmpty: Check = (value, path) => value === '' ? [] : account(value, path)
+
+const accountList: Check = (value, path) => Array.isArray(value)
+  ? value.flatMap((entry, index) => account(entry, `${path}[${index}]`))
+  : issue(path, 'expected an array of account names')
+
+const permlink: Check = (value, path) => {
+  if (typeof value !== 'string' || value.length === 0) {
+    return issue(path, 'expected a permlink')
+  }
+  if (value.length > 256) {
+    return issue(path, 'must be at most 256 characters')
+  }
+  return /^[a-z0-9._-]+$/.test(value) ? [] : issue(path, `"${value}" may only contain lowercase letters, digits, hyphens, underscores and dots`)
+}
+
+const string = (maxLength = Infinity, minLength = 0): Check => (value, path) => {
+  if (typeof value !== 'string') {
+    return issue(path, 'expected a string')
+  }
+  if (value.length < minLength) {
+    return issue(path, minLength === 1 ? 'must not be empty' : `must be at least ${minLength} characters`)
+  }
+  return value.length > maxLength ? issue(path, `must be at most ${maxLength} characters`) : []
+}
+
+const integer = (min: number, max: number): Check => (value, path) => {
+  if (typeof value !== 'number' || !Number.isInteger(value)) {
+    return issue(path, 'expected an integer')
+  }
+  return value < min || value > max ? issue(path, `must be between ${min} and ${max}`) : []
+}
+
+const uint32 = integer(0, 0xffffffff)
+
+const boolean: Check = (value, path) => typeof value === 'boolean' ? [] : issue(path, 'expected true or false')
+
+// JSON carried as a string; metadata fields may be empty
+const jsonString = (allowEmpty: boolean): Check => (value, path) => {
+  if (typeof value !== 'string') {
+    return issue(path, 'expected a JSON string')
+  }
+  if (value === '' && allowEmpty) {
+    return []
+  }
+  try {
+    JSON.parse(value)
+    return []
+  } catch {
+    return issue(path, 'is not valid JSON')
+  }
+}
+
+const time: Check = (value, path) => typeof value === 'string' && /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}$/.test(value)
+  ? []
+  : issue(path, 'expected a UTC time like "2025-01-31T12:00:00"')
+
+const publicKey: Check = (value, path) => typeof value === 'string' && /^(STM|TST)[1-9A-HJ-NP-Za-km-z]{50}$/.test(value)
+  ? []
+  : issue(path, 'expected a public key like "STM…"')
+
+const hex: Check = (value, path) => typeof value === 'string' && /^([0-9a-f]{2})*$/i.test(value)
+  ? []
+  : issue(path, 'expected a hex string')
+
+const array = (item: Check = () => []): Check => (value, path) => Array.isArray(value)
+  ? value.flatMap((entry, index) => item(entry, `${path}[${index}]`))
+  : issue(path, 'expected an array')
+
+const object: Check = (value, path) => value && typeof value === 'object' && !Array.isArray(value)
+  ? []
+  : issue(path, 'expected an object')
+
+const optional = (check: Check): Check => (value, path) => value === undefined || value === null ? [] : check(value, path)
+
+/**
+ * An asset in the legacy string form ("1.000 HIVE") or as a NAI object
+ * ({ amount: "1000", precision: 3, nai: "@@000000021" }), limited to the
+ * given symbols and checked for the symbol's precision.
+ */
+const asset = (...symbols: string[]): Check => (value, path) => {
+  const expected = symbols.join(' or ')
+  if (value && typeof value === 'object') {
+    const symbol = NAI_SYMBOLS[value.nai]
+    if (!symbol || !symbols.includes(symbol)) {
+      return issue(path, `expected a ${expected} asset`)
+    }
+    if (value.precision !== ASSET_PRECISION[symbol]) {
+      return issue(`${path}.precision`, `${symbol} has precision ${ASSET_PRECISION[symbol]}`)
+    }
+    return typeof value.amount === 'string' && /^\d+$/.test(value.amount) ? [] : issue(`${path}.amount`, 'expected a whole number of satoshis as a string')
+  }
+
+  const match = typeof value === 'string' ? value.match(/^(\d+)(?:\.(\d+))? ([A-Z]+)$/) : null
+  if (!match) {
+    return issue(path, `expected an amount like "1.000 ${symbols[0]}"`)
+  }
+  const [, , decimals = '', rawSymbol] = match
+  const symbol = SYMBOL_ALIASES[rawSymbol!] ?? rawSymbol!
+  if (!symbols.includes(symbol)) {
+    return issue(path, `expected ${expected}, got ${rawSymbol}`)
+  }
+  const precision = ASSET_PRECISION[rawSymbol!]!
+  return decimals.length === precision ? [] : issue(path, `${rawSymbol} amounts need exactly ${precision} decimal places, e.g. "${(1).toFixed(precision)} ${rawSymbol}"`)
+}
+
+const price: Check = (value, path) => {
+  if (!value || typeof value !== 'object') {
+    return issue(path, 'expected a price with base and quote')
+  }
+  return [
+    ...asset('HIVE', 'HBD')(value.base, `${path}.base`),
+    ...asset('HIVE', 'HBD')(value.quote, `${path}.quote`)
+  ]
+}
+
+const authority: Check = (value, path) => {
+  if (!value || typeof value !== 'object') {
+    return issue(path, 'expected an authority with weight_threshold, account_auths and key_auths')
+  }
+  const pairs = (check: Check, field: string): ValidationIssue[] => Array.isArray(value[field])
+    ? value[field].flatMap((entry: any, index: number) => Array.isArray(entry) && entry.length === 2
+      ? [...check(entry[0], `${path}.${field}[${index}][0]`), ...integer(1, 0xffff)(entry[1], `${path}.${field}[${index}][1]`)]
+      : issue(`${path}.${field}[${index}]`, 'expected a [name, weight] pair'))
+    : issue(`${path}.${field}`, 'expected an array')
+  return [
+    ...integer(1, 0xffffffff)(value.weight_threshold, `${path}.weight_threshold`),
+    ...pairs(account, 'account_auths'),
+    ...pairs(publicKey, 'key_auths')
+  ]
+}
+
+const percent = integer(0, 10000)
+const memo = string(2048)
+const extensions = optional(array())
+
+// comment_options extension [0, { beneficiaries: [...] }]
+const commentExtensions: Check = (value, path) => {
+  if (value === undefined) return []
+  if (!Array.isArray(value)) return issue(path, 'expected an array')
+  return value.flatMap((extension, index) => {
+    const extensionPath = `${path}[${index}]`
+    const body = Array.isArray(extension) ? extension[1] : extension?.value
+    const beneficiaries = body?.beneficiaries
+    if (!Array.isArray(beneficiaries)) {
+      return issue(extensionPath, 'expected a beneficiaries extension')
+    }
+    const listPath = `${extensionPath}${Array.isArray(extension) ? '[1]' : '.value'}.beneficiaries`
+    const issues = beneficiaries.flatMap((entry: any, position: number) => [
+      ...account(entry?.account, `${listPath}[${position}].account`),
+      ...integer(1, 10000)(entry?.weight, `${listPath}[${position}].weight`)
+    ])
+    const total = beneficiaries.reduce((sum: number, entry: any) => sum + (Number(entry?.weight) || 0), 0)
+    if (total > 10000) {
+      issues.push({ path: listPath, message: `weights add up to ${total}, more than 10000 (100%)` })
+    }
+    const names = beneficiaries.map((entry: any) => String(entry?.account))
+    if (names.some((name: string, position: number) => position > 0 && name <= names[position - 1]!)) {
+      issues.push({ path: listPath, message: 'must be sorted by account name without duplicates' })
+    }
+    return issues
+  })
+}
+
+const newAccount = {
+  new_account_name: account,
+  owner: authority,
+  active: authority,
+  posting: authority,
+  memo_key: publicKey,
+  json_metadata: jsonString(true)
+}
+
+const escrowParties = { from: account, to: account, agent: account, escrow_id: uint32 }
+
+const SCHEMAS: Record<string, OperationSchema> = {
+  vote: { fields: { voter: account, author: account, permlink, weight: integer(-10000, 10000) } },
+  comment: {
+    fields: {
+      parent_author: accountOrEmpty,
+      parent_permlink: permlink,
+      author: account,
+      permlink,
+      title: string(256),
+      body: string(Infinity, 1),
+      json_metadata: jsonString(true)
+    }
+  },
+  transfer: { fields: { from: account, to: account, amount: asset('HIVE', 'HBD'), memo } },
+  transfer_to_vesting: { fields: { from: account, to: accountOrEmpty, amount: asset('HIVE') } },
+  withdraw_vesting: { fields: { account, vesting_shares: asset('VESTS') } },
+  limit_order_create: {
+    fields: {
+      owner: account,
+      orderid: uint32,
+      amount_to_sell: asset('HIVE', 'HBD'),
+      min_to_receive: asset('HIVE', 'HBD'),
+      fill_or_kill: boolean,
+      expiration: time
+    }
+  },
+  limit_order_cancel: { fields: { owner: account, orderid: uint32 } },
+  feed_publish: { fields: { publisher: account, exchange_rate: price } },
+  convert: { fields: { owner: account, requestid: uint32, amount: asset('HBD') } },
+  account_create: { fields: { fee: asset('HIVE'), creator: account, ...newAccount } },
+  account_update: {
+    fields: {
+      account,
+      owner: optional(authority),
+      active: optional(authority),
+      posting: optional(authority),
+      memo_key: publicKey,
+      json_metadata: jsonString(true)
+    }
+  },
+  witness_update: {
+    fields: { owner: account, url: string(2048, 1), block_signing_key: publicKey, props: object, fee: asset('HIVE') }
+  },
+  account_witness_vote: { fields: { account, witness: account, approve: boolean } },
+  account_witness_proxy: { fields: { account, proxy: accountOrEmpty } },
+  pow: { fields: {}, open: true },
+  custom: { fields: { required_auths: accountList, id: integer(0, 0xffff), data: hex } },
+  report_over_production: { fields: {}, open: true },
+  delete_comment: { fields: { author: account, permlink } },
+  custom_json: {
+    fields: { required_auths: accountList, required_posting_auths: accountList, id: string(32, 1), json: jsonString(false) },
+    refine: (body, path) => (body.required_auths?.length ?? 0) + (body.required_posting_auths?.length ?? 0) > 0
+      ? []
+      : issue(path, 'needs at least one account in required_auths or required_posting_auths')
+  },
+  comment_options: {
+    fields: {
+      author: account,
+      permlink,
+      max_accepted_payout: asset('HBD'),
+      percent_hbd: percent,
+      allow_votes: boolean,
+      allow_curation_rewards: boolean,
+      extensions: commentExtensions
+    }
+  },
+  set_withdraw_vesting_route: { fields: { from_account: account, to_account: account, percent, auto_vest: boolean } },
+  limit_order_create2: {
+    fields: {
+      owner: account,
+      orderid: uint32,
+      amount_to_sell: asset('HIVE', 'HBD'),
+      exchange_rate: price,
+      fill_or_kill: boolean,
+      expiration: time
+    }
+  },
+  claim_account: { fields: { creator: account, fee: asset('HIVE'), extensions } },
+  create_claimed_account: { fields: { creator: account, ...newAccount, extensions } },
+  request_account_recovery: { fields: { recovery_account: account, account_to_recover: account, new_owner_authority: authority, extensions } },
+  recover_account: {
+    fields: { account_to_recover: account, new_owner_authority: authority, recent_owner_authority: authority, extensions }
+  },
+  change_recovery_account: { fields: { account_to_recover: account, new_recovery_account: account, extensions } },
+  escrow_transfer: {
+    fields: {
+      ...escrowParties,
+      hbd_amount: asset('HBD'),
+      hive_amount: asset('HIVE'),
+      fee: asset('HIVE', 'HBD'),
+      ratification_deadline: time,
+      escrow_expiration: time,
+      json_meta: jsonString(true)
+    }
+  },
+  escrow_dispute: { fields: { ...escrowParties, who: account } },
+  escrow_release: {
+    fields: { ...escrowParties, who: account, receiver: account, hbd_amount: asset('HBD'), hive_amount: asset('HIVE') }
+  },
+  pow2: { fields: {}, open: true },
+  escrow_approve: { fields: { ...escrowParties, who: account, approve: boolean } },
+  transfer_to_savings: { fields: { from: account, to: account, amount: asset('HIVE', 'HBD'), memo } },
+  transfer_from_savings: { fields: { from: account, request_id: uint32, to: account, amount: asset('HIVE', 'HBD'), memo } },
+  cancel_transfer_from_savings: { fields: { from: account, request_id: uint32 } },
+  custom_binary: { fields: {}, open: true },
+  decline_voting_rights: { fields: { account, decline: boolean } },
+  reset_account: { fields: { reset_account: account, account_to_reset: account, new_owner_authority: authority } },
+  set_reset_account: { fields: { account, current_reset_account: accountOrEmpty, reset_account: account } },
+  claim_reward_balance: {
+    fields: { account, reward_hive: asset('HIVE'), reward_hbd: asset('HBD'), reward_vests: asset('VESTS') }
+  },
+  delegate_vesting_shares: { fields: { delegator: account, delegatee: account, vesting_shares: asset('VESTS') } },
+  account_create_with_delegation: {
+    fields: { fee: asset('HIVE'), delegation: asset('VESTS'), creator: account, ...newAccount, extensions }
+  },
+  witness_set_properties: {
+    fields: { owner: account, props: array((entry, path) => Array.isArray(entry) && entry.length === 2 ? [] : issue(path, 'expected a [name, value] pair')), extensions }
+  },
+  account_update2: {
+    fields: {
+      account,
+      owner: optional(authority),
+      active: optional(authority),
+      posting: optional(authority),
+      memo_key: optional(publicKey),
+      json_metadata: jsonString(true),
+      posting_json_metadata: jsonString(true),
+      extensions
+    }
+  },
+  create_proposal: {
+    fields: {
+      creator: account,
+      receiver: account,
+      start_date: time,
+      end_date: time,
+      daily_pay: asset('HBD'),
+      subject: string(80, 1),
+      permlink,
+      extensions
+    },
+    refine: (body, path) => typeof body.start_date === 'string' && body.start_date >= body.end_date
+      ? issue(`${path}.end_date`, 'must be after start_date')
+      : []
+  },
+  update_proposal_votes: { fields: { voter: account, proposal_ids: array(integer(0, Number.MAX_SAFE_INTEGER)), approve: boolean, extensions } },
+  remove_proposal: { fields: { proposal_owner: account, proposal_ids: array(integer(0, Number.MAX_SAFE_INTEGER)), extensions } },
+  update_proposal: {
+    fields: {
+      proposal_id: integer(0, Number.MAX_SAFE_INTEGER),
+      creator: account,
+      daily_pay: asset('HBD'),
+      subject: string(80, 1),
+      permlink,
+      extensions
+    }
+  },
+  collateralized_convert: { fields: { owner: account, requestid: uint32, amount: asset('HIVE') } },
+  recurrent_transfer: {
+    fields: {
+      from: account,
+      to: account,
+      amount: asset('HIVE', 'HBD'),
+      memo,
+      recurrence: integer(24, 0xffff),
+      executions: integer(2, 0xffff),
+      extensions
+    }
+  }
+}
+
+function checkBody(name: string, body: any, path: string): ValidationIssue[] {
+  const schema = SCHEMAS[name]!
+  const issues: ValidationIssue[] = []
+  for (const [field, check] of Object.entries(schema.fields)) {
+    const value = body[field]
+    // Optional fields accept undefined themselves
+    if (value === undefined) {
+      if (check(undefined, `${path}.${field}`).length > 0) {
+        issues.push({ path: `${path}.${field}`, message: 'is required' })
+      }
+      continue
+    }
+    issues.push(...check(value, `${path}.${field}`))
+  }
+  if (!schema.open) {
+    for (const field of Object.keys(body)) {
+      if (!(field in schema.fields) && field !== 'extensions') {
+        issues.push({ path: `${path}.${field}`, message: `is not a field of ${name}` })
+      }
+    }
+  }
+  if (issues.length === 0 && schema.refine) {
+    issues.push(...schema.refine(body, path))
+  }
+  return issues
+}
+
+function checkOperation(raw: unknown, path: string): { operation: HiveOperation | null; issues: ValidationIssue[] } {
+  let name: unknown
+  let body: unknown
+  let namePath: string
+  let bodyPath: string
+  if (Array.isArray(raw)) {
+    [name, body] = raw
+    namePath = `${path}[0]`
+    bodyPath = `${path}[1]`
+  } else if (raw && typeof raw === 'object') {
+    ({ type: name, value: body } = raw as any)
+    namePath = `${path}.type`
+    bodyPath = `${path}.value`
+  } else {
+    return { operation: null, issues: issue(path, 'expected an operation as {"type", "value"} or ["name", {...}]') }
+  }
+
+  if (typeof name !== 'string') {
+    return { operation: null, issues: issue(namePath, 'expected an operation name') }
+  }
+  const type = normalizeOperationName(name)
+  if (!SCHEMAS[type]) {
+    return { operation: null, issues: issue(namePath, `unknown operation type "${name}"`) }
+  }
+  if (!body || typeof body !== 'object' || Array.isArray(body)) {
+    return { operation: null, issues: issue(bodyPath, 'expected the operation body as an object') }
+  }
+
+  const issues = checkBody(type, body, bodyPath)
+  return { operation: issues.length === 0 ? { type, value: body as Record<string, unknown> } : null, issues }
+}
+
+/**
+ * Check raw operations: an array of operations or a single one, each as
+ * `{type, value}` or `[name, body]`. Returns the operations in the
+ * `HiveOperation` shape together with every problem found.
+ */
+export function parseOperations(raw: unknown): { operations: HiveOperation[]; issues: ValidationIssue[] } {
+  // A lone tuple looks like an array; its first element is the operation name
+  const list = Array.isArray(raw) && typeof raw[0] !== 'string' ? raw : [raw]
+  if (list.length === 0) {
+    return { operations: [], issues: issue('ops', 'expected at least one operation') }
+  }
+
+  const operations: HiveOperation[] = []
+  const issues: ValidationIssue[] = []
+  list.forEach((entry, index) => {
+    const result = checkOperation(entry, `ops[${index}]`)
+    if (result.operation) operations.push(result.operation)
+    issues.push(...result.issues)
+  })
+  return { operations, issues }
+}
+
+export function formatIssues(issues: ValidationIssue[]): string {
+  return issues.map(({ path, message }) => `${path}: ${message}`).join('\n  ')
+}
+
+/** Like parseOperations, but throws a usage error listing every problem. */
+export function validateOperations(raw: unknown): HiveOperation[] {
+  const { operations, issues } = parseOperations(raw)
+  if (issues.length > 0) {
+    throw usageError(`Invalid operations:\n  ${formatIssues(issues)}`, { issues })
+  }
+  return operations
+}
@@ -0,0 +1,169 @@
+import { usageError } from './errors.js'
+
+export type AuthorityRole = 'posting' | 'active' | 'owner'
+
+export interface RequiredAuthority {
+  account: string
+  role: AuthorityRole
+}
+
+type Body = Record<string, any>
+type AuthorityResolver = (body: Body) => RequiredAuthority[]
+
+const posting = (field: string): AuthorityResolver => (body) => [{ account: body[field], role: 'posting' }]
+const active = (field: string): AuthorityResolver => (body) => [{ account: body[field], role: 'active' }]
+const owner = (field: string): AuthorityResolver => (body) => [{ account: body[field], role: 'owner' }]
+const none: AuthorityResolver = () => []
+// Signed with something other than an account's key role, which the CLI cannot plan for
+const unsupported = (reason: string): AuthorityResolver => () => {
+  throw usageError(reason)
+}
+
+function listed(accounts: unknown, role: AuthorityRole): RequiredAuthority[] {
+  return Array.isArray(accounts) ? accounts.map((account) => ({ account: String(account), role })) : []
+}
+
+/**
+ * Authority each operation needs, mirroring hived's get_required_*_authorities.
+ * Virtual operations cannot be broadcast and are not listed; operations whose
+ * signers are not an account role throw.
+ */
+export const OPERATION_AUTHORITIES: Record<string, AuthorityResolver> = {
+  vote: posting('voter'),
+  comment: posting('author'),
+  transfer: active('from'),
+  transfer_to_vesting: active('from'),
+  withdraw_vesting: active('account'),
+  limit_order_create: active('owner'),
+  limit_order_cancel: active('owner'),
+  feed_publish: active('publisher'),
+  convert: active('owner'),
+  account_create: active('creator'),
+  account_update: (body) => [{ account: body.account, role: body.owner ? 'owner' : 'active' }],
+  witness_update: active('owner'),
+  account_witness_vote: active('account'),
+  account_witness_proxy: active('account'),
+  pow: none,
+  custom: (body) => listed(body.required_auths, 'active'),
+  report_over_production: none,
+  delete_comment: posting('author'),
+  custom_json: (body) => [
+    ...listed(body.required_auths, 'active'),
+    ...listed(body.required_posting_auths, 'posting')
+  ],
+  comment_options: posting('author'),
+  set_withdraw_vesting_route: active('from_account'),
+  limit_order_create2: active('owner'),
+  claim_account: active('creator'),
+  create_claimed_account: active('creator'),
+  request_account_recovery: active('recovery_account'),
+  recover_account: unsupported('recover_account has to be signed by both its new_owner_authority and recent_owner_authority, not by an account key role'),
+  change_recovery_account: owner('account_to_recover'),
+  escrow_transfer: active('from'),
+  escrow_dispute: active('who'),
+  escrow_release: active('who'),
+  pow2: none,
+  escrow_approve: active('who'),
+  transfer_to_savings: active('from'),
+  transfer_from_savings: active('from'),
+  cancel_transfer_from_savings: active('from'),
+  custom_binary: (body) => [
+    ...listed(body.required_owner_auths, 'owner'),
+    ...listed(body.required_active_auths, 'active'),
+    ...listed(body.required_posting_auths, 'posting')
+  ],
+  decline_voting_rights: owner('account'),
+  reset_account: active('reset_account'),
+  set_reset_account: owner('account'),
+  claim_reward_balance: posting('account'),
+  delegate_vesting_shares: active('delegator'),
+  account_create_with_delegation: active('creator'),
+  witness_set_properties: unsupported('witness_set_properties is signed with the witness signing key in props.key, not by an account key role'),
+  account_update2: (body) => {
+    if (body.owner) return [{ account: body.account, role: 'owner' }]
+    if (body.active || body.memo_key || body.json_metadata) return [{ account: body.account, role: 'active' }]
+    return [{ account: body.account, role: 'posting' }]
+  },
+  create_proposal: active('creator'),
+  update_proposal_votes: active('voter'),
+  remove_proposal: active('proposal_owner'),
+  update_proposal: active('creator'),
+  collateralized_convert: active('owner'),
+  recurrent_transfer: active('from')
+}
+
+export function normalizeOperationName(name: string): string {
+  return name.replace(/_operation$/, '')
+}
+
+/**
+ * Accounts and roles that have to sign a transaction with these operations,
+ * deduplicated. Unknown operation types throw.
+ */
+export function getRequiredAuthorities(operations: [string, Body][]): RequiredAuthority[] {
+  const required = new Map<string, RequiredAuthority>()
+  for (const [name, body] of operations) {
+    const resolver = OPERATION_AUTHORITIES[normalizeOperationName(name)]
+    if (!resolver) {
+      throw usageError(`Unknown operation type: ${name}`)
+    }
+    for (const authority of resolver(body)) {
+      required.set(`${authority.account}/${authority.role}`, authority)
+    }
+  }
+  return [...required.values()]
+}
+
+export interface OperationAuthority {
+  index: number
+  type: string
+  authorities: RequiredAuthority[]
+}
+
+export interface SigningPlan {
+  /** The single key role that signs the transaction. */
+  role: AuthorityRole
+  operations: OperationAuthority[]
+}
+
+const ROLE_RANK: Record<AuthorityRole, number> = { posting: 0, active: 1, owner: 2 }
+
+/** "needs the active key of @alice" */
+export function describeAuthorities(authorities: RequiredAuthority[]): string {
+  if (authorities.length === 0) {
+    return 'needs no signature'
+  }
+  return `needs ${authorities.map(({ account, role }) => `the ${role} key of @${account}`).join(' and ')}`
+}
+
+/** "ops[1] transfer needs the active key of @alice" */
+export function describeOperationAuthority({ index, type, authorities }: OperationAuthority): string {
+  return `ops[${index}] ${type} ${describeAuthorities(authorities)}`
+}
+
+/**
+ * The key role a transaction has to be signed with. hived rejects
+ * transactions that mix posting with active or owner authorities; owner and
+ * active requirements combine into the higher role, since the owner key also
+ * satisfies active. Mixed transactions throw with what each operation needs.
+ */
+export function resolveSigningRole(operations: [string, Body][]): SigningPlan {
+  const plan: OperationAuthority[] = operations.map(([name, body], index) => ({
+    index,
+    type: normalizeOperationName(name),
+    authorities: getRequiredAuthorities([[name, body]])
+  }))
+
+  const roles = new Set(plan.flatMap(({ authorities }) => authorities.map(({ role }) => role)))
+  if (roles.has('posting') && (roles.has('active') || roles.has('owner'))) {
+    throw usageError(
+      `Posting and ${roles.has('owner') ? 'owner' : 'active'} operations cannot be signed in one transaction:\n`
+        + plan.map((entry) => `  ${describeOperationAuthority(entry)}`).join('\n')
+        + '\nBroadcast them separately.',
+      { operations: plan }
+    )
+  }
+
+  const role = [...roles].reduce<AuthorityRole>((highest, current) => ROLE_RANK[current] > ROLE_RANK[highest] ? current : highest, 'posting')
+  return { role, operations: plan }
+}
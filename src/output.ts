@@ -0,0 +1,105 @@
+import chalk from 'chalk'
+import { rpcError, toCliError } from './errors.js'
+import { isJsonMode, type Spinner } from './utils.js'
+
+export interface ResultEnvelope {
+  ok: boolean
+  command: string
+  data: unknown
+  error: { code: string; message: string; details?: unknown } | null
+}
+
+let commandName = ''
+let emitted = false
+let jsonLines = false
+const writeStdout = (text: string) => process.stdout.write(`${text}\n`)
+
+export function setCommandName(name: string): void {
+  commandName = name
+}
+
+/**
+ * In JSON mode stdout carries exactly one envelope; anything else a command
+ * prints (progress, hints) is moved to stderr.
+ */
+export function reserveStdoutForEnvelope(): void {
+  console.log = (...args: unknown[]) => console.error(...args)
+}
+
+/**
+ * For commands that write their own JSON Lines to stdout. No envelope is added
+ * there; in JSON mode a failure goes to stderr as a single line instead.
+ */
+export function useJsonLinesOutput(): void {
+  jsonLines = true
+  emitted = true
+}
+
+function emit(envelope: ResultEnvelope): void {
+  emitted = true
+  const replacer = (_key: string, value: unknown) => typeof value === 'bigint' ? value.toString() : value
+  if (jsonLines) {
+    process.stderr.write(`${JSON.stringify(envelope, replacer)}\n`)
+    return
+  }
+  writeStdout(JSON.stringify(envelope, replacer, 2))
+}
+
+/** A JSON-RPC response's result; an error envelope throws. */
+export function unwrapResponse(response: any): unknown {
+  if (response && typeof response === 'object' && 'jsonrpc' in response) {
+    if (response.error) {
+      throw rpcError(response.error)
+    }
+    return response.result
+  }
+  return response
+}
+
+/**
+ * Print a command's result: the data as JSON for people, or wrapped in the
+ * result envelope in JSON mode. JSON-RPC responses are unwrapped unless
+ * `unwrap` is false.
+ */
+export function printResult(data: unknown, options: { unwrap?: boolean } = {}): void {
+  const unwrapped = options.unwrap === false ? data : unwrapResponse(data)
+  if (isJsonMode()) {
+    emit({ ok: true, command: commandName, data: unwrapped ?? null, error: null })
+    return
+  }
+  console.log(JSON.stringify(unwrapped, (_key, value) => typeof value === 'bigint' ? value.toString() : value, 2))
+}
+
+/**
+ * Report a failure and exit with the code for its category. With a spinner
+ * the message replaces it; in JSON mode the error envelope goes to stdout
+ * (stderr for JSON Lines commands).
+ */
+export function fail(error: unknown, spinner?: Spinner): never {
+  const cliError = toCliError(error)
+  if (isJsonMode()) {
+    emit({
+      ok: false,
+      command: commandName,
+      data: null,
+      error: { code: cliError.code, message: cliError.message, details: cliError.details }
+    })
+  } else {
+    if (spinner) {
+      spinner.fail(cliError.message)
+    } else {
+      console.error(chalk.red(cliError.message))
+    }
+    if (cliError.hint) {
+      console.error(chalk.dim(`→ ${cliError.hint}`))
+    }
+  }
+  process.exit(cliError.exitCode)
+}
+
+/** Emit the empty success envelope for commands that produced no result in JSON mode. */
+export function finish(): void {
+  if (isJsonMode() && !emitted) {
+    emit({ ok: true, command: commandName, data: null, error: null })
+  }
+}
@@ -0,0 +1,197 @@
+import type { HiveClient } from './hive-client.js'
+import type { HiveTransaction, RcCheckMode } from './types.js'
+import { unwrapResult } from './utils.js'
+
+const RC_REGEN_TIME = 5 * 24 * 3600
+const BLOCK_INTERVAL = 3
+
+export const RC_CHECK_MODES: RcCheckMode[] = ['abort', 'warn', 'off']
+
+// Operations the RC plugin bills against the market bytes resource
+const MARKET_OPS = new Set([
+  'transfer',
+  'transfer_to_vesting',
+  'transfer_to_savings',
+  'transfer_from_savings',
+  'recurrent_transfer',
+  'limit_order_create',
+  'limit_order_create2',
+  'limit_order_cancel',
+  'convert',
+  'collateralized_convert',
+  'escrow_transfer'
+])
+
+// The state object each operation creates, by its field in rc_api size_info.resource_state_bytes.
+// Only base sizes are counted; per-character and per-member sizes are left out.
+const STATE_OBJECT_SIZES: Record<string, string> = {
+  vote: 'comment_vote_object_base_size',
+  comment: 'comment_object_base_size',
+  convert: 'convert_request_object_base_size',
+  collateralized_convert: 'collateralized_convert_request_object_base_size',
+  limit_order_create: 'limit_order_object_base_size',
+  limit_order_create2: 'limit_order_object_base_size',
+  transfer_from_savings: 'savings_withdraw_object_byte_size',
+  delegate_vesting_shares: 'vesting_delegation_object_base_size',
+  set_withdraw_vesting_route: 'withdraw_vesting_route_object_base_size',
+  account_witness_vote: 'witness_vote_object_base_size',
+  witness_update: 'witness_object_base_size',
+  escrow_transfer: 'escrow_object_base_size',
+  create_proposal: 'proposal_object_base_size',
+  update_proposal_votes: 'proposal_vote_object_base_size',
+  recurrent_transfer: 'recurrent_transfer_object_base_size',
+  account_create: 'account_object_base_size',
+  account_create_with_delegation: 'account_object_base_size',
+  create_claimed_account: 'account_object_base_size',
+  request_account_recovery: 'account_recovery_request_object_base_size',
+  decline_voting_rights: 'decline_voting_rights_request_object_base_size'
+}
+
+export interface RcEstimate {
+  total: bigint
+  resources: Record<string, bigint>
+}
+
+function toBigInt(value: unknown): bigint {
+  try {
+    return BigInt(String(value ?? 0).split('.')[0] || 0)
+  } catch {
+    return 0n
+  }
+}
+
+function vestsSatoshis(asset: any): bigint {
+  if (asset && typeof asset === 'object' && 'amount' in asset) {
+    return toBigInt(asset.amount)
+  }
+  const [amount = '0'] = String(asset ?? '0').split(' ')
+  const [whole = '0', fraction = ''] = amount.split('.')
+  return toBigInt(whole) * 1_000_000n + toBigInt(fraction.padEnd(6, '0').slice(0, 6))
+}
+
+function sizeField(info: Record<string, unknown> | undefined, name: string | undefined): bigint {
+  return name ? toBigInt(info?.[name]) : 0n
+}
+
+/** Same curve as the RC plugin: cost = (regen * a >> shift + 1) * count / (b + pool) + 1 */
+function computeResourceCost(curve: any, pool: bigint, count: bigint, regen: bigint): bigint {
+  if (count <= 0n) {
+    return 0n
+  }
+  let num = (regen * toBigInt(curve.coeff_a)) >> toBigInt(curve.shift)
+  num = (num + 1n) * count
+  const denom = toBigInt(curve.coeff_b) + (pool > 0n ? pool : 0n)
+  return num / denom + 1n
+}
+
+/**
+ * Estimate the RC cost of a transaction from the node's resource params and pools.
+ * Execution time and the transaction's state bytes use the node's size info as
+ * published; state created by operations counts only base object sizes, so the
+ * result is an estimate rather than the exact charge.
+ */
+export async function estimateRcCost(client: HiveClient, transaction: HiveTransaction, sizeBytes: number): Promise<RcEstimate> {
+  const [paramsResult, poolResult, propsResult] = await Promise.all([
+    client.call('rc_api', 'get_resource_params', {}),
+    client.call('rc_api', 'get_resource_pool', {}),
+    client.call('database_api', 'get_dynamic_global_properties', {})
+  ])
+
+  const params = unwrapResult(paramsResult) as any
+  const pools = (unwrapResult(poolResult) as any)?.resource_pool ?? {}
+  const props = unwrapResult(propsResult) as any
+
+  const regen = vestsSatoshis(props?.total_vesting_shares) / BigInt(RC_REGEN_TIME / BLOCK_INTERVAL)
+  const stateInfo = params?.size_info?.resource_state_bytes
+  const execInfo = params?.size_info?.resource_execution_time
+  const opNames = transaction.operations.map(([name]) => name.replace(/_operation$/, ''))
+  const size = BigInt(sizeBytes)
+
+  let stateBytes = sizeField(stateInfo, 'transaction_object_base_size')
+    + sizeField(stateInfo, 'transaction_object_byte_size') * size
+  let executionTime = sizeField(execInfo, 'transaction_time')
+  for (const op of opNames) {
+    stateBytes += sizeField(stateInfo, STATE_OBJECT_SIZES[op])
+    executionTime += sizeField(execInfo, `${op}_operation_exec_time`)
+  }
+
+  const counts: Record<string, bigint> = {
+    resource_history_bytes: size,
+    resource_new_accounts: BigInt(opNames.filter((op) => op === 'claim_account' || op === 'account_create').length),
+    resource_market_bytes: opNames.some((op) => MARKET_OPS.has(op)) ? size : 0n,
+    resource_state_bytes: stateBytes,
+    resource_execution_time: executionTime
+  }
+
+  const resources: Record<string, bigint> = {}
+  let total = 0n
+  for (const [name, count] of Object.entries(counts)) {
+    const resourceParams = params?.resource_params?.[name]
+    if (!resourceParams || regen === 0n) {
+      continue
+    }
+    const unit = toBigInt(resourceParams.resource_dynamics_params?.resource_unit ?? 1)
+    const cost = computeResourceCost(resourceParams.price_curve_params, toBigInt(pools[name]?.pool), count * unit, regen)
+    resources[name] = cost
+    total += cost
+  }
+
+  return { total, resources }
+}
+
+export interface RcMana {
+  current: bigint
+  max: bigint
+}
+
+/**
+ * Current RC mana of an account, including what regenerated since the
+ * manabar was last updated. Null when the node has no RC data for it.
+ */
+export async function getRcMana(client: HiveClient, account: string): Promise<RcMana | null> {
+  const result = unwrapResult(await client.call('rc_api', 'find_rc_accounts', { accounts: [account] })) as any
+  const rc = result?.rc_accounts?.[0]
+  if (!rc) {
+    return null
+  }
+
+  const max = toBigInt(rc.max_rc)
+  const elapsed = BigInt(Math.max(0, Math.floor(Date.now() / 1000) - rc.rc_manabar.last_update_time))
+  const regenerated = max * elapsed / BigInt(RC_REGEN_TIME)
+  const current = toBigInt(rc.rc_manabar.current_mana) + regenerated
+  return { current: current > max ? max : current, max }
+}
+
+/** Seconds until the manabar holds `needed` mana; Infinity if it never will. */
+export function secondsUntilMana(mana: RcMana, needed: bigint): number {
+  if (mana.current >= needed) {
+    return 0
+  }
+  if (mana.max === 0n || needed > mana.max) {
+    return Infinity
+  }
+  return Number((needed - mana.current) * BigInt(RC_REGEN_TIME) / mana.max)
+}
+
+export function formatDuration(seconds: number): string {
+  if (!Number.isFinite(seconds)) {
+    return 'never'
+  }
+  // Round up to whole minutes first so a partial minute carries into the hours
+  const totalMinutes = Math.ceil(seconds / 60)
+  const days = Math.floor(totalMinutes / 1440)
+  const hours = Math.floor((totalMinutes % 1440) / 60)
+  const minutes = totalMinutes % 60
+  const parts = []
+  if (days) parts.push(`${days}d`)
+  if (hours) parts.push(`${hours}h`)
+  if (minutes) parts.push(`${minutes}m`)
+  return parts.length > 0 ? parts.join(' ') : 'less than a minute'
+}
+
+/** Suggested fix for an account that is short of RC. */
+export function rcShortageHint(waitSeconds: number): string {
+  return Number.isFinite(waitSeconds)
+    ? `Wait about ${formatDuration(waitSeconds)} for RC to regenerate, or power up HIVE`
+    : 'The transaction costs more RC than the account can ever hold; power up HIVE or ask for an RC delegation'
+}
@@ -0,0 +1,35 @@
+import fs from 'fs-extra'
+import { usageError } from './errors.js'
+import type { HiveTransaction, TransactionFile } from './types.js'
+
+/**
+ * Read a transaction written by --unsigned/--sign-only. A bare transaction
+ * object (as produced by other Hive tools) is accepted as well.
+ */
+export async function readTransactionFile(path: string): Promise<TransactionFile> {
+  let raw: any
+  try {
+    raw = await fs.readJson(path)
+  } catch (error: any) {
+    throw usageError(`Could not read transaction file: ${error.message}`)
+  }
+
+  const file: TransactionFile = raw && typeof raw === 'object' && 'transaction' in raw
+    ? raw
+    : { version: 1, keyType: 'posting', transaction: raw }
+
+  const tx = file.transaction
+  if (!tx || typeof tx.ref_block_num !== 'number' || !tx.expiration || !Array.isArray(tx.operations)) {
+    throw usageError(`${path} does not contain a Hive transaction`)
+  }
+
+  return file
+}
+
+export async function writeTransactionFile(path: string, file: TransactionFile): Promise<void> {
+  await fs.writeJson(path, file, { spaces: 2 })
+}
+
+export function isExpired(transaction: HiveTransaction): boolean {
+  return new Date(`${transaction.expiration}Z`).getTime() <= Date.now()
+}
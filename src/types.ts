@@ -2,11 +2,56 @@ export interface Config {
   account: string;
   postingKey?: string;
   activeKey?: string;
+  memoKey?: string;
+  ownerKey?: string;
+  /** One URL or a comma-separated list to fail over between. */
   node?: string;
+  /** Per-request RPC timeout in seconds. */
+  rpcTimeout?: number;
+  /** What to do when the RC pre-flight check finds too little mana. */
+  rcCheck?: RcCheckMode;
   chainId?: string;
+  keystore?: EncryptedKeystore;
+  plaintextKeys?: boolean;
+}
+
+export type RcCheckMode = 'abort' | 'warn' | 'off';
+
+export interface ConfigFile {
+  activeProfile: string;
+  profiles: Record<string, Config>;
+}
+
+export type KeystoreField = 'postingKey' | 'activeKey' | 'memoKey' | 'ownerKey';
+
+export interface EncryptedKeystore {
+  version: 1;
+  kdf: 'scrypt';
+  kdfParams: { n: number; r: number; p: number; salt: string };
+  cipher: 'aes-256-gcm';
+  iv: string;
+  authTag: string;
+  ciphertext: string;
+  fields: KeystoreField[];
+  publicKeys?: Partial<Record<KeystoreField, string>>;
 }
 
 export interface HiveOperation {
   type: string;
   value: Record<string, unknown>;
 }
+
+export interface HiveTransaction {
+  ref_block_num: number;
+  ref_block_prefix: number;
+  expiration: string;
+  operations: [string, Record<string, unknown>][];
+  extensions: unknown[];
+  signatures?: string[];
+}
+
+export interface TransactionFile {
+  version: 1;
+  keyType: 'posting' | 'active' | 'owner';
+  transaction: HiveTransaction;
+}
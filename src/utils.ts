@@ -1,10 +1,18 @@
 import { readFileSync, existsSync } from 'fs';
 import { fileURLToPath } from 'url';
 import { dirname, join } from 'path';
-import ora from 'ora';
+import { Option, type Command } from 'commander';
+import ora, { type Ora } from 'ora';
 import chalk from 'chalk';
-import { getConfig } from './config.js';
-import { HiveClient } from './hive-client.js';
+import { getConfig, getEnvConfig } from './config.js';
+import { configError, usageError } from './errors.js';
+import { HiveClient, missingKeyMessage, type Confirmation, type RcCheck } from './hive-client.js';
+import { hasKey } from './keystore.js';
+import { describeAuthorities, describeOperationAuthority, resolveSigningRole, type AuthorityRole, type OperationAuthority } from './operations.js';
+import { fail, printResult, unwrapResponse } from './output.js';
+import { estimateRcCost, rcShortageHint, type RcEstimate } from './rc.js';
+import { writeTransactionFile } from './transaction-file.js';
+import type { HiveOperation } from './types.js';
 
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = dirname(__filename);
@@ -34,6 +42,20 @@ export function getAccountName(config: any, options: any): string {
   return options.account || config?.account || process.env.HIVE_ACCOUNT;
 }
 
+/**
+ * Like getAccountName, but exits with a config error when no account is set.
+ * `from` says whether the command takes the account as --account or as an argument.
+ */
+export function requireAccountName(config: any, options: any, from: 'option' | 'argument' = 'option'): string {
+  const account = getAccountName(config, options);
+  if (!account) {
+    fail(configError(from === 'option'
+      ? 'Account not specified. Use --account, HIVE_ACCOUNT, or configure with "hive config"'
+      : 'Account not specified. Pass an account, set HIVE_ACCOUNT, or configure with "hive config"'));
+  }
+  return account;
+}
+
 /**
  * Parse a Hive post/comment URL into { author, permlink }.
  * Supports PeakD, HiveBlog, Ecency, and any URL with /@author/permlink in the path.
@@ -55,6 +77,8 @@ export function isJsonMode(): boolean {
   return process.env.HIVE_JSON_OUTPUT === '1';
 }
 
+let activeSpinner: Ora | null = null;
+
 export function createSpinner(text: string) {
   if (isJsonMode()) {
     const noop = {
@@ -62,11 +86,239 @@ export function createSpinner(text: string) {
       start: () => noop,
       succeed: () => {},
       fail: () => {},
+      warn: (text?: string) => {
+        console.error(`⚠ ${text}`);
+        return noop;
+      },
       stop: () => {}
     };
     return noop;
   }
-  return ora(text);
+  activeSpinner = ora(text);
+  return activeSpinner;
+}
+
+/**
+ * Stop the running spinner while an interactive prompt is shown, then resume it.
+ */
+export async function withSpinnerPaused<T>(fn: () => Promise<T>): Promise<T> {
+  const spinner = activeSpinner?.isSpinning ? activeSpinner : null;
+  spinner?.stop();
+  try {
+    return await fn();
+  } finally {
+    spinner?.start();
+  }
+}
+
+export type Spinner = ReturnType<typeof createSpinner>;
+
+/** Hive rejects transactions that expire more than an hour from now. */
+export const MAX_EXPIRATION_SECONDS = 3600;
+
+export interface TxOutputMode {
+  signed: boolean;
+  file: string;
+}
+
+/**
+ * The --unsigned / --sign-only global options: write the transaction to a file
+ * instead of broadcasting it.
+ */
+export function getTxOutputMode(): TxOutputMode | null {
+  if (process.env.HIVE_TX_UNSIGNED_FILE) {
+    return { signed: false, file: process.env.HIVE_TX_UNSIGNED_FILE };
+  }
+  if (process.env.HIVE_TX_SIGNED_FILE) {
+    return { signed: true, file: process.env.HIVE_TX_SIGNED_FILE };
+  }
+  return null;
+}
+
+export function isDryRun(): boolean {
+  return process.env.HIVE_DRY_RUN === '1';
+}
+
+/**
+ * Whether the command will sign with a local key. False for --dry-run and --unsigned,
+ * which never touch the key.
+ */
+export function needsSigningKey(): boolean {
+  return !isDryRun() && getTxOutputMode()?.signed !== false;
+}
+
+async function printDryRun(client: HiveClient, operations: HiveOperation[], keyType: AuthorityRole, spinner: Spinner): Promise<void> {
+  spinner.text = 'Estimating transaction size and RC cost...';
+  const transaction = await client.createTransaction(operations);
+  const size = await client.getTransactionSize(transaction);
+  let rc: RcEstimate | null = null;
+  let check: RcCheck | null = null;
+  try {
+    rc = await estimateRcCost(client, transaction, size);
+    check = await client.checkRc(transaction, size);
+  } catch {
+    // RC API unavailable on this node; size is still useful
+  }
+  spinner.stop();
+
+  let authorities: OperationAuthority[] | null = null;
+  try {
+    authorities = resolveSigningRole(transaction.operations).operations;
+  } catch {
+    // Mixed roles are reported when broadcasting
+  }
+
+  if (isJsonMode()) {
+    printResult({
+      dry_run: true,
+      key_type: keyType,
+      operations: transaction.operations,
+      required_authorities: authorities?.map((entry) => entry.authorities) ?? null,
+      size_bytes: size,
+      estimated_rc: rc ? rc.total.toString() : null,
+      rc_available: check ? check.current.toString() : null,
+      rc_sufficient: check ? check.sufficient : null
+    });
+    return;
+  }
+
+  console.log(chalk.yellow('Dry run: nothing was signed or broadcast'));
+  console.log(`Key role: ${chalk.bold(keyType)}`);
+  console.log('Operations:');
+  transaction.operations.forEach(([name, body], index) => {
+    console.log(`  [${index}] ${chalk.bold(name)} ${JSON.stringify(body)}`);
+    const needs = authorities?.[index];
+    if (needs) {
+      console.log(chalk.dim(`      ${describeAuthorities(needs.authorities)}`));
+    }
+  });
+  console.log(`Transaction size: ${size} bytes`);
+  console.log(`Estimated RC cost: ${rc ? rc.total.toLocaleString() : 'unavailable'}`);
+  if (check) {
+    const status = check.sufficient
+      ? chalk.green('enough')
+      : chalk.red(`not enough, ${rcShortageHint(check.waitSeconds).toLowerCase()}`);
+    console.log(`RC available to @${check.account}: ${check.current.toLocaleString()} (${status})`);
+  }
+}
+
+/**
+ * Fail before anything reaches a node when the key for the role is not
+ * configured, naming the operations that need it.
+ */
+export async function requireSigningKey(operations: HiveOperation[], keyType: AuthorityRole): Promise<void> {
+  const config = await getConfig();
+  if (hasKey(config, keyType)) {
+    return;
+  }
+
+  const error = configError(missingKeyMessage(keyType), { role: keyType });
+  try {
+    const { operations: plan } = resolveSigningRole(operations.map((op) => [op.type, op.value]));
+    error.hint = plan
+      .filter(({ authorities }) => authorities.some(({ role }) => role === keyType))
+      .map(describeOperationAuthority)
+      .join('; ');
+  } catch {
+    // The node will report what is wrong with the operations
+  }
+  throw error;
+}
+
+/**
+ * Sign and broadcast operations for a command, honouring the global
+ * transaction output mode, and print the result.
+ */
+export async function broadcastOperations(
+  operations: HiveOperation[],
+  keyType: AuthorityRole,
+  options: { spinner: Spinner; successMessage: string; wait?: WaitOptions }
+): Promise<void> {
+  const { spinner } = options;
+  const client = await getClient();
+  const outputMode = getTxOutputMode();
+
+  if (needsSigningKey()) {
+    await requireSigningKey(operations, keyType);
+  }
+
+  if (isDryRun()) {
+    await printDryRun(client, operations, keyType, spinner);
+    return;
+  }
+
+  if (outputMode) {
+    const transaction = await client.createTransaction(operations, MAX_EXPIRATION_SECONDS);
+    const output = outputMode.signed ? await client.signTransaction(transaction, keyType) : transaction;
+    await writeTransactionFile(outputMode.file, { version: 1, keyType, transaction: output });
+    spinner.succeed(`${outputMode.signed ? 'Signed' : 'Unsigned'} transaction written to ${outputMode.file}`);
+    printResult({
+      file: outputMode.file,
+      signed: outputMode.signed,
+      tx_id: client.getTransactionId(output),
+      key_type: keyType,
+      expiration: output.expiration
+    });
+    return;
+  }
+
+  client.onWarning = (message) => {
+    spinner.warn(message);
+    spinner.start();
+  };
+  const result = await client.broadcast(operations, keyType);
+  if (options.wait) {
+    const confirmation = await waitForConfirmation(client, result.tx_id, options.wait, spinner);
+    spinner.succeed(`${options.successMessage} (${confirmation.status} in block ${confirmation.block_num})`);
+    printResult(confirmation);
+    return;
+  }
+  spinner.succeed(options.successMessage);
+  printResult(result);
+}
+
+export type WaitMode = 'included' | 'irreversible';
+
+export interface WaitOptions {
+  mode: WaitMode;
+  timeoutSeconds: number;
+}
+
+const DEFAULT_WAIT_TIMEOUT: Record<WaitMode, number> = { included: 30, irreversible: 120 };
+
+/** Add --wait [mode] and --wait-timeout to a command that broadcasts. */
+export function addWaitOptions(command: Command): Command {
+  return command
+    .addOption(
+      new Option('--wait [mode]', 'Wait for confirmation: until the transaction is in a block (included) or irreversible')
+        .choices(['included', 'irreversible'])
+        .preset('included')
+    )
+    .option('--wait-timeout <seconds>', 'Give up waiting after this many seconds (default 30, or 120 for irreversible)');
+}
+
+/** The parsed --wait options, or undefined without --wait. */
+export function getWaitOptions(options: { wait?: WaitMode; waitTimeout?: string }): WaitOptions | undefined {
+  if (!options.wait) {
+    return undefined;
+  }
+  const timeoutSeconds = options.waitTimeout === undefined ? DEFAULT_WAIT_TIMEOUT[options.wait] : Number(options.waitTimeout);
+  if (!(timeoutSeconds > 0)) {
+    throw usageError('--wait-timeout must be a number of seconds');
+  }
+  return { mode: options.wait, timeoutSeconds };
+}
+
+/** Wait for a broadcast transaction, showing how far it is from irreversible on the spinner. */
+export async function waitForConfirmation(client: HiveClient, txId: string, wait: WaitOptions, spinner: Spinner): Promise<Confirmation> {
+  spinner.text = wait.mode === 'irreversible' ? 'Waiting for the transaction to become irreversible...' : 'Waiting for confirmation...';
+  return await client.waitForTransaction(txId, {
+    irreversible: wait.mode === 'irreversible',
+    timeoutMs: wait.timeoutSeconds * 1000,
+    onProgress: (status) => {
+      spinner.text = `${status}...`;
+    }
+  });
 }
 
 export async function getClient(options: { requireConfig?: boolean } = {}): Promise<HiveClient> {
@@ -74,11 +326,27 @@ export async function getClient(options: { requireConfig?: boolean } = {}): Prom
   const requireConfig = options.requireConfig !== false;
 
   if (!config && requireConfig) {
-    console.error(chalk.red('Configuration not found. Run "hive config" or set HIVE_ACCOUNT and key env vars.'));
-    process.exit(1);
+    fail(configError('Configuration not found. Run "hive config" or set HIVE_ACCOUNT and key env vars.'));
   }
 
-  return new HiveClient(config || { account: '' });
+  if (config) {
+    return new HiveClient(config);
+  }
+  const { node, rpcTimeout, rcCheck } = getEnvConfig();
+  return new HiveClient({ account: '', node, rpcTimeout, rcCheck });
+}
+
+export async function getAccount(client: HiveClient, name: string): Promise<any> {
+  const accounts: any = unwrapResponse(await client.call('condenser_api', 'get_accounts', [[name]]));
+  const account = Array.isArray(accounts) ? accounts[0] : undefined;
+  if (!account) {
+    throw usageError(`Account @${name} does not exist`);
+  }
+  return account;
+}
+
+export async function getProps(client: HiveClient): Promise<any> {
+  return unwrapResponse(await client.call('database_api', 'get_dynamic_global_properties', {}));
 }
 
 export function parseMetadata(raw: unknown): Record<string, unknown> {
@@ -115,13 +383,19 @@ export function unwrapResult<T>(result: any): T {
     : result;
 }
 
+/**
+ * Numeric value of an asset: "1.234 HIVE", a number, or a NAI object
+ * ({ amount: "1234", precision: 3, nai }), whose integer amount is scaled
+ * down by its precision.
+ */
 export function parseAssetAmount(amount: any): number {
   if (typeof amount === 'number') {
     return amount;
   }
 
   if (amount && typeof amount === 'object' && 'amount' in amount) {
-    const numeric = parseFloat(String((amount as any).amount));
+    // NAI amounts are integers in the asset's smallest unit
+    const numeric = parseFloat(String((amount as any).amount)) / 10 ** Number((amount as any).precision ?? 0);
     return Number.isFinite(numeric) ? numeric : 0;
   }
 
@@ -133,6 +407,33 @@ export function parseAssetAmount(amount: any): number {
   return Number.isFinite(numeric) ? numeric : 0;
 }
 
+const NAI_SYMBOLS: Record<string, string> = { '@@000000021': 'HIVE', '@@000000013': 'HBD', '@@000000037': 'VESTS' };
+
+export interface ExactAsset {
+  /** Decimal string exactly as the chain holds it, e.g. "1234.567". */
+  amount: string;
+  symbol: string;
+}
+
+/**
+ * Like parseAssetAmount, but keeps the amount as a decimal string so large or
+ * many-digit values (VESTS) are not rounded through a float. Accepts the
+ * string form and NAI objects ({ amount: "1234567", precision: 3, nai }).
+ */
+export function parseAssetExact(asset: any): ExactAsset {
+  if (asset && typeof asset === 'object' && 'nai' in asset) {
+    const precision = Number(asset.precision);
+    const raw = String(asset.amount);
+    const sign = raw.startsWith('-') ? '-' : '';
+    const digits = raw.replace(/^-/, '').padStart(precision + 1, '0');
+    const amount = precision > 0 ? `${digits.slice(0, -precision)}.${digits.slice(-precision)}` : digits;
+    return { amount: `${sign}${amount}`, symbol: NAI_SYMBOLS[asset.nai] ?? asset.nai };
+  }
+
+  const [amount = '0', symbol = ''] = String(asset ?? '').trim().split(/\s+/);
+  return { amount, symbol };
+}
+
 export function hpToVests(hp: number, props: any): string {
   const totalVestingFundHive = parseAssetAmount(props.total_vesting_fund_hive);
   const totalVestingShares = parseAssetAmount(props.total_vesting_shares);
@@ -144,3 +445,10 @@ export function hpToVests(hp: number, props: any): string {
   const vests = (hp * totalVestingShares) / totalVestingFundHive;
   return `${vests.toFixed(6)} VESTS`;
 }
+
+/** HP worth of a VESTS amount at the current vesting fund ratio. */
+export function vestsToHp(vests: number, props: any): number {
+  const totalVestingFundHive = parseAssetAmount(props.total_vesting_fund_hive);
+  const totalVestingShares = parseAssetAmount(props.total_vesting_shares);
+  return totalVestingShares ? (vests * totalVestingFundHive) / totalVestingShares : 0;
+}
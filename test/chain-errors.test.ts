@@ -0,0 +1,33 @@
+import assert from 'node:assert/strict'
+import { describe, it } from 'node:test'
+import { classifyChainError } from '../src/chain-errors.js'
+
+describe('classifyChainError', () => {
+  it('recognises a missing authority with its role and account', () => {
+    const info = classifyChainError('missing required active authority:Missing Active Authority alice')
+
+    assert.equal(info?.reason, 'missing_authority')
+    assert.equal(info?.role, 'active')
+    assert.equal(info?.account, 'alice')
+  })
+
+  it('reads the RC shortage from the node message', () => {
+    const info = classifyChainError('Account: alice has 1000 RC, needs 5000 RC. Please wait to transact, or power up HIVE.')
+
+    assert.equal(info?.reason, 'insufficient_rc')
+    assert.deepEqual(info?.rc, { current: '1000', needed: '5000' })
+  })
+
+  it('tells an identical vote apart from the rate limit', () => {
+    assert.equal(classifyChainError('itr->vote_percent != o.weight: Your current vote on this comment is identical to this vote.')?.reason, 'identical_vote')
+    assert.equal(classifyChainError('You may only comment once every 3 seconds.')?.reason, 'rate_limited')
+  })
+
+  it('recognises a duplicate broadcast', () => {
+    assert.equal(classifyChainError('Duplicate transaction check failed')?.reason, 'duplicate_transaction')
+  })
+
+  it('leaves unknown messages alone', () => {
+    assert.equal(classifyChainError('something unexpected'), null)
+  })
+})
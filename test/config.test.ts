@@ -0,0 +1,115 @@
+import assert from 'node:assert/strict'
+import { mkdir, mkdtemp, readFile, rm, writeFile } from 'node:fs/promises'
+import { tmpdir } from 'node:os'
+import { join } from 'node:path'
+import { after, describe, it } from 'node:test'
+
+// The config directory is resolved from HOME when the modules load, so point it
+// at a scratch directory before importing them
+const home = await mkdtemp(join(tmpdir(), 'hive-cli-test-'))
+process.env.HOME = home
+const configFile = join(home, '.hive-tx-cli', 'config.json')
+
+const config = await import('../src/config.js')
+const { deriveKeysFromMaster } = await import('../src/keys.js')
+const { decryptSecrets } = await import('../src/keystore.js')
+
+const [owner, active, posting, memo] = deriveKeysFromMaster('alice', 'correct horse battery staple')
+
+describe('saving config', () => {
+  after(async () => {
+    delete process.env.HIVE_KEYSTORE_PASSPHRASE
+    await rm(home, { recursive: true, force: true })
+  })
+
+  it('moves plaintext keys into the keystore', async () => {
+    process.env.HIVE_KEYSTORE_PASSPHRASE = 'passphrase'
+    await config.saveConfig({ account: 'alice', postingKey: posting!.privateKey, activeKey: active!.privateKey })
+
+    const raw = await readFile(configFile, 'utf8')
+    assert.ok(!raw.includes(posting!.privateKey))
+    assert.ok(!raw.includes(active!.privateKey))
+
+    const stored = await config.getStoredConfig()
+    assert.equal(stored?.account, 'alice')
+    assert.deepEqual(await decryptSecrets(stored!.keystore!, 'passphrase'), {
+      postingKey: posting!.privateKey,
+      activeKey: active!.privateKey
+    })
+  })
+
+  it('adds new keys to the existing keystore', async () => {
+    process.env.HIVE_KEYSTORE_PASSPHRASE = 'passphrase'
+    await config.saveConfig({ account: 'alice', postingKey: posting!.privateKey })
+    const stored = await config.getStoredConfig()
+    await config.saveConfig({ ...stored!, activeKey: active!.privateKey })
+
+    const updated = await config.getStoredConfig()
+    assert.equal(updated?.activeKey, undefined)
+    assert.deepEqual(await decryptSecrets(updated!.keystore!, 'passphrase'), {
+      postingKey: posting!.privateKey,
+      activeKey: active!.privateKey
+    })
+  })
+
+  it('keeps no key of any role in plaintext', async () => {
+    process.env.HIVE_KEYSTORE_PASSPHRASE = 'passphrase'
+    await config.saveConfig({ account: 'alice', postingKey: posting!.privateKey, ownerKey: owner!.privateKey, memoKey: memo!.privateKey })
+
+    const raw = await readFile(configFile, 'utf8')
+    for (const key of [posting!, owner!, memo!]) {
+      assert.ok(!raw.includes(key.privateKey))
+    }
+    const stored = await config.getStoredConfig()
+    assert.equal(config.hasPlaintextKeys(stored!), false)
+    assert.deepEqual(await decryptSecrets(stored!.keystore!, 'passphrase'), {
+      postingKey: posting!.privateKey,
+      memoKey: memo!.privateKey,
+      ownerKey: owner!.privateKey
+    })
+  })
+
+  it('keeps plaintext keys with a warning when no passphrase is available', async () => {
+    delete process.env.HIVE_KEYSTORE_PASSPHRASE
+    const isTTY = process.stdin.isTTY
+    const consoleError = console.error
+    const warnings: string[] = []
+    process.stdin.isTTY = false
+    console.error = (message: string) => warnings.push(message)
+    try {
+      await mkdir(join(home, '.hive-tx-cli'), { recursive: true })
+      await writeFile(configFile, JSON.stringify({ account: 'bob', postingKey: posting!.privateKey }))
+      await config.saveConfig({ account: 'bob', postingKey: posting!.privateKey, node: 'https://api.hive.blog' })
+    } finally {
+      process.stdin.isTTY = isTTY
+      console.error = consoleError
+    }
+
+    assert.equal(warnings.length, 1)
+    assert.match(warnings[0]!, /plaintext/)
+    const stored = await config.getStoredConfig()
+    assert.equal(stored?.postingKey, posting!.privateKey)
+    assert.equal(stored?.node, 'https://api.hive.blog')
+    assert.equal(stored?.keystore, undefined)
+  })
+})
+
+describe('environment config', () => {
+  it('rejects an RPC timeout that is not a positive number', () => {
+    for (const value of ['abc', '0', '-5', 'Infinity']) {
+      process.env.HIVE_RPC_TIMEOUT = value
+      assert.throws(() => config.getEnvConfig(), { code: 'CONFIG' })
+    }
+    process.env.HIVE_RPC_TIMEOUT = '2.5'
+    assert.equal(config.getEnvConfig().rpcTimeout, 2.5)
+    delete process.env.HIVE_RPC_TIMEOUT
+  })
+
+  it('rejects an unknown RC check mode', () => {
+    process.env.HIVE_RC_CHECK = 'never'
+    assert.throws(() => config.getEnvConfig(), { code: 'CONFIG' })
+    process.env.HIVE_RC_CHECK = 'abort'
+    assert.equal(config.getEnvConfig().rcCheck, 'abort')
+    delete process.env.HIVE_RC_CHECK
+  })
+})
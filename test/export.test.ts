@@ -0,0 +1,89 @@
+import assert from 'node:assert/strict'
+import { describe, it } from 'node:test'
+import type { HistoryEntry } from '../src/account-history.js'
+import { formatRow, toRows } from '../src/commands/export.js'
+
+function entry(type: string, value: Record<string, any>): HistoryEntry {
+  return {
+    index: 7,
+    trx_id: 'abc123',
+    block: 1000,
+    trx_in_block: 0,
+    op_in_trx: 0,
+    virtual_op: false,
+    timestamp: '2025-01-31T12:00:00',
+    type,
+    value
+  }
+}
+
+describe('export rows', () => {
+  it('exports a transfer from either side', () => {
+    const transfer = entry('transfer', { from: 'alice', to: 'bob', amount: '1.500 HIVE', memo: 'thanks' })
+
+    assert.deepEqual(toRows(transfer, 'alice'), [{
+      timestamp: '2025-01-31T12:00:00',
+      block: 1000,
+      trx_id: 'abc123',
+      type: 'transfer',
+      direction: 'out',
+      counterparty: 'bob',
+      amount: '1.500',
+      asset: 'HIVE',
+      memo: 'thanks'
+    }])
+    assert.deepEqual(toRows(transfer, 'bob').map(({ direction, counterparty }) => [direction, counterparty]), [['in', 'alice']])
+  })
+
+  it('keeps the exact digits of NAI amounts', () => {
+    const reward = entry('producer_reward', {
+      producer: 'alice',
+      vesting_shares: { amount: '123456789012345', precision: 6, nai: '@@000000037' }
+    })
+
+    const [row] = toRows(reward, 'alice')
+    assert.equal(row?.amount, '123456789.012345')
+    assert.equal(row?.asset, 'VESTS')
+  })
+
+  it('leaves out the zero legs of a reward', () => {
+    const reward = entry('author_reward', {
+      author: 'alice',
+      hbd_payout: '0.000 HBD',
+      hive_payout: '0.000 HIVE',
+      vesting_payout: '2000.123456 VESTS'
+    })
+
+    assert.deepEqual(toRows(reward, 'alice').map(({ amount, asset }) => `${amount} ${asset}`), ['2000.123456 VESTS'])
+  })
+
+  it('keeps a zero delegation, which removes it', () => {
+    const undelegate = entry('delegate_vesting_shares', { delegator: 'alice', delegatee: 'bob', vesting_shares: '0.000000 VESTS' })
+
+    assert.deepEqual(toRows(undelegate, 'alice').map(({ direction, amount }) => [direction, amount]), [['out', '0.000000']])
+  })
+
+  it('exports both sides of a conversion and an order fill', () => {
+    const convert = entry('fill_convert_request', { owner: 'alice', amount_in: '10.000 HBD', amount_out: '25.000 HIVE' })
+    const fill = entry('fill_order', {
+      current_owner: 'alice',
+      current_pays: '5.000 HBD',
+      open_owner: 'bob',
+      open_pays: '12.000 HIVE'
+    })
+
+    assert.deepEqual(toRows(convert, 'alice').map(({ direction, amount, asset }) => `${direction} ${amount} ${asset}`), ['out 10.000 HBD', 'in 25.000 HIVE'])
+    assert.deepEqual(toRows(fill, 'bob').map(({ direction, counterparty, amount }) => `${direction} ${counterparty} ${amount}`), ['out alice 12.000', 'in alice 5.000'])
+  })
+
+  it('exports nothing for operations that move no balance', () => {
+    assert.deepEqual(toRows(entry('vote', { voter: 'alice', author: 'bob', permlink: 'post', weight: 10000 }), 'alice'), [])
+  })
+
+  it('quotes CSV fields that need it', () => {
+    const [row] = toRows(entry('transfer', { from: 'bob', to: 'alice', amount: '1.000 HBD', memo: 'rent, "March"' }), 'alice')
+
+    assert.equal(formatRow(row!, 'csv'), '2025-01-31T12:00:00,1000,abc123,transfer,in,bob,1.000,HBD,"rent, ""March"""')
+    assert.deepEqual(JSON.parse(formatRow(row!, 'jsonl')), row)
+  })
+})
@@ -0,0 +1,54 @@
+import assert from 'node:assert/strict'
+import { describe, it } from 'node:test'
+import { deriveKeysFromMaster } from '../src/keys.js'
+import { decryptSecrets, encryptSecrets, pickSecrets } from '../src/keystore.js'
+
+const [owner, active, posting, memo] = deriveKeysFromMaster('alice', 'correct horse battery staple')
+
+describe('keystore encryption', () => {
+  it('decrypts what it encrypted', async () => {
+    const secrets = { postingKey: posting!.privateKey, activeKey: active!.privateKey }
+    const keystore = await encryptSecrets(secrets, 'passphrase')
+
+    assert.deepEqual(await decryptSecrets(keystore, 'passphrase'), secrets)
+    assert.deepEqual(keystore.fields, ['postingKey', 'activeKey'])
+    assert.ok(!keystore.ciphertext.includes(Buffer.from(posting!.privateKey).toString('hex')))
+  })
+
+  it('records the public keys without needing the passphrase', async () => {
+    const keystore = await encryptSecrets({ postingKey: posting!.privateKey, memoKey: memo!.privateKey }, 'passphrase')
+
+    assert.deepEqual(keystore.publicKeys, { postingKey: posting!.publicKey, memoKey: memo!.publicKey })
+  })
+
+  it('rejects a wrong passphrase', async () => {
+    const keystore = await encryptSecrets({ activeKey: active!.privateKey }, 'passphrase')
+
+    await assert.rejects(decryptSecrets(keystore, 'wrong'), /Incorrect keystore passphrase/)
+  })
+
+  it('rejects a tampered ciphertext', async () => {
+    const keystore = await encryptSecrets({ activeKey: active!.privateKey }, 'passphrase')
+    const flipped = (parseInt(keystore.ciphertext[0]!, 16) ^ 1).toString(16)
+
+    await assert.rejects(decryptSecrets({ ...keystore, ciphertext: flipped + keystore.ciphertext.slice(1) }, 'passphrase'))
+  })
+
+  it('picks every key field and nothing else', () => {
+    const config = {
+      account: 'alice',
+      node: 'https://api.hive.blog',
+      postingKey: posting!.privateKey,
+      activeKey: active!.privateKey,
+      memoKey: memo!.privateKey,
+      ownerKey: owner!.privateKey
+    }
+
+    assert.deepEqual(pickSecrets(config), {
+      postingKey: posting!.privateKey,
+      activeKey: active!.privateKey,
+      memoKey: memo!.privateKey,
+      ownerKey: owner!.privateKey
+    })
+  })
+})
@@ -0,0 +1,82 @@
+import assert from 'node:assert/strict'
+import { execFile } from 'node:child_process'
+import { mkdtemp, rm } from 'node:fs/promises'
+import { createServer, type Server } from 'node:http'
+import type { AddressInfo } from 'node:net'
+import { tmpdir } from 'node:os'
+import { join } from 'node:path'
+import { after, before, describe, it } from 'node:test'
+import { fileURLToPath } from 'node:url'
+
+const cli = fileURLToPath(new URL('../src/index.ts', import.meta.url))
+const HEAD = 105
+
+// A node with blocks up to HEAD, one transfer each; the block API can be switched off
+let blockApiMissing = false
+const server: Server = createServer((req, res) => {
+  let body = ''
+  req.on('data', (chunk) => { body += chunk })
+  req.on('end', () => {
+    const { id, method, params } = JSON.parse(body)
+    const reply = (payload: object) => res.end(JSON.stringify({ id, jsonrpc: '2.0', ...payload }))
+    if (method === 'database_api.get_dynamic_global_properties') {
+      return reply({ result: { head_block_number: HEAD, last_irreversible_block_num: HEAD - 3 } })
+    }
+    if (method === 'block_api.get_block_range' && !blockApiMissing) {
+      const blocks = []
+      for (let num = params.starting_block_num; num < params.starting_block_num + params.count && num <= HEAD; num++) {
+        blocks.push({
+          timestamp: '2025-01-01T00:00:00',
+          transactions: [{ operations: [{ type: 'transfer_operation', value: { from: 'alice', to: 'bob', amount: '1.000 HIVE', memo: '' } }] }],
+          transaction_ids: [num.toString(16).padStart(40, '0')]
+        })
+      }
+      return reply({ result: { blocks } })
+    }
+    reply({ error: { code: -32601, message: `Could not find method ${method}` } })
+  })
+})
+
+function runStream(args: string[]): Promise<{ code: number; stdout: string; stderr: string }> {
+  const { port } = server.address() as AddressInfo
+  return new Promise((resolve) => {
+    execFile(process.execPath, ['--import', 'tsx', cli, 'stream', ...args], {
+      env: { ...process.env, HOME: home, HIVE_NODE: `http://127.0.0.1:${port}`, HIVE_JSON_OUTPUT: '1' },
+      timeout: 60_000
+    }, (error, stdout, stderr) => resolve({ code: typeof error?.code === 'number' ? error.code : 0, stdout, stderr }))
+  })
+}
+
+let home: string
+
+describe('stream in JSON mode', () => {
+  before(async () => {
+    home = await mkdtemp(join(tmpdir(), 'hive-cli-test-'))
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve))
+  })
+
+  after(async () => {
+    server.close()
+    await rm(home, { recursive: true, force: true })
+  })
+
+  it('writes only operation lines to stdout when --to-block is reached', async () => {
+    const { code, stdout } = await runStream(['--from-block', '100', '--to-block', '102'])
+
+    assert.equal(code, 0)
+    const lines = stdout.trimEnd().split('\n').map((line) => JSON.parse(line))
+    assert.deepEqual(lines.map(({ block, type }) => [block, type]), [[100, 'transfer'], [101, 'transfer'], [102, 'transfer']])
+  })
+
+  it('reports a failure as one JSON line on stderr', async () => {
+    blockApiMissing = true
+    const { code, stdout, stderr } = await runStream(['--from-block', '100', '--to-block', '102'])
+    blockApiMissing = false
+
+    assert.notEqual(code, 0)
+    assert.equal(stdout, '')
+    const envelope = JSON.parse(stderr.trimEnd().split('\n').at(-1)!)
+    assert.equal(envelope.ok, false)
+    assert.equal(envelope.command, 'stream')
+  })
+})
@@ -0,0 +1,25 @@
+import assert from 'node:assert/strict'
+import { describe, it } from 'node:test'
+import { parseAssetAmount } from '../src/utils.js'
+
+describe('parseAssetAmount', () => {
+  it('scales NAI amounts down by their precision', () => {
+    assert.equal(parseAssetAmount({ amount: '1234', precision: 3, nai: '@@000000021' }), 1.234)
+    assert.equal(parseAssetAmount({ amount: '2500', precision: 3, nai: '@@000000013' }), 2.5)
+    assert.equal(parseAssetAmount({ amount: '123456789', precision: 6, nai: '@@000000037' }), 123.456789)
+    assert.equal(parseAssetAmount({ amount: '0', precision: 3, nai: '@@000000021' }), 0)
+  })
+
+  it('reads legacy asset strings as written', () => {
+    assert.equal(parseAssetAmount('1.234 HIVE'), 1.234)
+    assert.equal(parseAssetAmount('2.500 HBD'), 2.5)
+    assert.equal(parseAssetAmount('123.456789 VESTS'), 123.456789)
+  })
+
+  it('passes numbers through and treats missing or malformed amounts as zero', () => {
+    assert.equal(parseAssetAmount(42.5), 42.5)
+    assert.equal(parseAssetAmount(undefined), 0)
+    assert.equal(parseAssetAmount(''), 0)
+    assert.equal(parseAssetAmount('abc HIVE'), 0)
+  })
+})